@@ -391,7 +391,7 @@ function setupInitialState(): void {
   router.define('demo.lighter', router.func('lighten', 'demo.primary', 0.2));
   router.define('demo.darker', router.func('darken', 'demo.primary', 0.2));
   router.define('demo.contrast', router.func('bestContrastWith', 'demo.primary', 'ramp'));
-  router.define('demo.relative', router.func('relativeTo', 'demo.primary', 'r g b / 0.7'));
+  router.define('demo.relative', router.func('relativeTo', 'demo.primary', 'rgb', [null, null, null, 0.7]));
   router.define('demo.minContrast', router.func('minContrastWith', 'demo.primary', 'ramp', 2.5));
   router.define('demo.mixed', router.func('colorMix', 'demo.secondary', 'demo.minContrast', 0.7, 'lab'));
 
@@ -501,9 +501,13 @@ function logRendererComparison(): void {
 }
 
 router.on('change', (e) => {
-  const event = e as CustomEvent<Array<{ key: string; oldValue?: string; newValue: string }>>;
+  const event = e as CustomEvent<Array<{ key: string; oldValue?: string; newValue?: string }>>;
   event.detail.forEach((change) => {
     const oldValue = change.oldValue || 'undefined';
+    if (change.newValue === undefined) {
+      logEvent(`REMOVED: '${change.key}' (was ${oldValue})`);
+      return;
+    }
     logEvent(
       `CHANGE: '${change.key}' from ${oldValue} to <span class="font-bold" style="color:${change.newValue}; text-shadow: 0 0 5px rgba(0,0,0,0.5);">${change.newValue}</span>`,
     );
@@ -0,0 +1,172 @@
+import { parse, converter, wcagContrast } from 'culori';
+import type { Color } from 'culori';
+import type { ContrastAlgorithm, ContrastLevel } from '../types';
+import { PaletteError } from '../router/errors';
+
+/** Minimum WCAG 2 contrast ratios of the named levels. */
+export const WCAG_LEVELS = {
+  AA: 4.5,
+  AAA: 7,
+  'AA-large': 3,
+  'AAA-large': 4.5,
+} as const;
+
+export interface ContrastMeasurement {
+  algorithm: ContrastAlgorithm;
+  contrast: number; // WCAG ratio (1–21), or the absolute APCA Lc value (0–108)
+  required: number;
+  passes: boolean;
+}
+
+const toRgb = converter('rgb');
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTRC: 2.4,
+  coefficients: [0.2126729, 0.7151522, 0.072175],
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blackThreshold: 0.022,
+  blackClamp: 1.414,
+  scale: 1.14,
+  offset: 0.027,
+  deltaYMin: 0.0005,
+  lowClip: 0.1,
+};
+
+/**
+ * Minimum font sizes (px) for text at a given APCA Lc, per font weight 100–900, after the APCA-W3 font lookup table.
+ * `Infinity` marks contrasts too low for text at that weight.
+ */
+const APCA_FONT_LOOKUP: Array<[lc: number, sizes: number[]]> = [
+  [25, [Infinity, Infinity, Infinity, 120, 120, 108, 96, 96, 96]],
+  [30, [Infinity, Infinity, 120, 108, 108, 96, 72, 72, 72]],
+  [35, [Infinity, 120, 108, 96, 72, 60, 48, 48, 48]],
+  [40, [120, 108, 96, 60, 48, 42, 32, 32, 32]],
+  [45, [108, 96, 72, 42, 32, 28, 24, 24, 24]],
+  [50, [96, 72, 60, 32, 28, 24, 21, 21, 21]],
+  [55, [80, 60, 48, 28, 24, 21, 18, 18, 18]],
+  [60, [72, 48, 42, 24, 21, 18, 16, 16, 18]],
+  [65, [68, 46, 32, 21.75, 19, 17, 15, 16, 18]],
+  [70, [64, 44, 28, 19.5, 18, 16, 14.5, 16, 18]],
+  [75, [60, 42, 24, 18, 16, 15, 14, 16, 18]],
+  [80, [56, 38.25, 23, 17.25, 15.81, 14.81, 14, 16, 18]],
+  [85, [52, 34.5, 22, 16.5, 15.625, 14.625, 14, 16, 18]],
+  [90, [48, 32, 21, 16, 15.5, 14.5, 14, 16, 18]],
+  [95, [45, 28, 19.5, 15.5, 15, 14, 13.5, 16, 18]],
+  [100, [42, 26.5, 18.5, 15, 14.5, 13.5, 13, 16, 18]],
+  [105, [39, 25, 18, 14.5, 14, 13, 12, 16, 18]],
+];
+
+function weightColumn(fontWeight: number): number {
+  return Math.min(8, Math.max(0, Math.round(fontWeight / 100) - 1));
+}
+
+function parseColor(color: string): Color {
+  const parsed = parse(color);
+  if (!parsed) throw new PaletteError(`Cannot parse "${color}" as a color.`);
+  return parsed;
+}
+
+/**
+ * Computes the screen luminance APCA works with, soft-clamped near black.
+ */
+function apcaLuminance(color: string): number {
+  const { r, g, b } = toRgb(parseColor(color));
+  const [rc, gc, bc] = APCA.coefficients;
+  const channel = (value: number) => Math.pow(Math.min(1, Math.max(0, value)), APCA.mainTRC);
+  const y = rc * channel(r) + gc * channel(g) + bc * channel(b);
+  return y > APCA.blackThreshold ? y : y + Math.pow(APCA.blackThreshold - y, APCA.blackClamp);
+}
+
+/**
+ * Computes the APCA lightness contrast (Lc) of text on a background.
+ * Positive values mean dark text on a light background, negative values light text on a dark one.
+ * @param text The text (foreground) color.
+ * @param background The background color.
+ * @returns Lc, roughly between -108 and 106. Values below 15 in magnitude count as no contrast and return 0.
+ * @throws {PaletteError} If either color cannot be parsed.
+ */
+export function apcaContrast(text: string, background: string): number {
+  const textY = apcaLuminance(text);
+  const backgroundY = apcaLuminance(background);
+  if (Math.abs(backgroundY - textY) < APCA.deltaYMin) return 0;
+
+  if (backgroundY > textY) {
+    const sapc = (Math.pow(backgroundY, APCA.normBG) - Math.pow(textY, APCA.normTXT)) * APCA.scale;
+    return sapc < APCA.lowClip ? 0 : (sapc - APCA.offset) * 100;
+  }
+  const sapc = (Math.pow(backgroundY, APCA.revBG) - Math.pow(textY, APCA.revTXT)) * APCA.scale;
+  return sapc > -APCA.lowClip ? 0 : (sapc + APCA.offset) * 100;
+}
+
+/**
+ * Computes the contrast of two colors with either algorithm.
+ * @param foreground The text (foreground) color. APCA is polarity-aware, so the order matters for it.
+ * @param background The background color.
+ * @param algorithm `'wcag2'` (default) for the WCAG 2 ratio from 1 to 21, or `'apca'` for the signed Lc value.
+ * @throws {PaletteError} If either color cannot be parsed or the algorithm is unknown.
+ */
+export function contrastRatio(foreground: string, background: string, algorithm: ContrastAlgorithm = 'wcag2'): number {
+  if (algorithm === 'apca') return apcaContrast(foreground, background);
+  if (algorithm !== 'wcag2') throw new PaletteError(`Unknown contrast algorithm "${algorithm}".`);
+  return wcagContrast(parseColor(foreground), parseColor(background));
+}
+
+/**
+ * Looks up the smallest font size that stays readable at an APCA contrast.
+ * @param lc The Lc value; its sign (polarity) is ignored.
+ * @param fontWeight The CSS font weight, rounded to the nearest hundred. Defaults to 400.
+ * @returns The minimum size in px, or undefined if the contrast is too low for text at that weight.
+ */
+export function apcaMinimumFontSize(lc: number, fontWeight = 400): number | undefined {
+  const column = weightColumn(fontWeight);
+  let size = Infinity;
+  for (const [rowLc, sizes] of APCA_FONT_LOOKUP) {
+    if (rowLc > Math.abs(lc)) break;
+    size = sizes[column];
+  }
+  return Number.isFinite(size) ? size : undefined;
+}
+
+/**
+ * Looks up the lowest APCA contrast at which text of a given size and weight is readable.
+ * @param fontSize The font size in px.
+ * @param fontWeight The CSS font weight, rounded to the nearest hundred. Defaults to 400.
+ * @returns The minimum absolute Lc, or undefined if no contrast makes text this small readable.
+ */
+export function apcaRequiredContrast(fontSize: number, fontWeight = 400): number | undefined {
+  const column = weightColumn(fontWeight);
+  return APCA_FONT_LOOKUP.find(([, sizes]) => sizes[column] <= fontSize)?.[0];
+}
+
+/**
+ * Measures the contrast of a foreground on a background against a required level.
+ * Named levels use the WCAG 2 ratio. `{ apca: Lc }` and `{ fontSize, fontWeight }` use APCA and compare the
+ * absolute Lc value; for the latter, the required Lc comes from the APCA font lookup table.
+ * @throws {PaletteError} If either color cannot be parsed, the level is unknown, or the font size is too small.
+ */
+export function measureContrast(foreground: string, background: string, level: ContrastLevel): ContrastMeasurement {
+  if (typeof level === 'object') {
+    let required: number | undefined;
+    if ('apca' in level) {
+      required = level.apca;
+    } else {
+      required = apcaRequiredContrast(level.fontSize, level.fontWeight);
+      if (required === undefined) {
+        throw new PaletteError(
+          `No APCA contrast makes ${level.fontSize}px text at weight ${level.fontWeight ?? 400} readable.`,
+        );
+      }
+    }
+    const contrast = Math.abs(apcaContrast(foreground, background));
+    return { algorithm: 'apca', contrast, required, passes: contrast >= required };
+  }
+
+  const required = WCAG_LEVELS[level];
+  if (required === undefined) throw new PaletteError(`Unknown contrast level "${level}".`);
+  const contrast = contrastRatio(foreground, background, 'wcag2');
+  return { algorithm: 'wcag2', contrast, required, passes: contrast >= required };
+}
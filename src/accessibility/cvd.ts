@@ -0,0 +1,90 @@
+import {
+  parse,
+  converter,
+  filterDeficiencyProt,
+  filterDeficiencyDeuter,
+  filterDeficiencyTrit,
+  filterGrayscale,
+} from 'culori';
+import type { Color } from 'culori';
+import type { ColorKey, ColorValue, ColorVisionDeficiency, CVDConflict } from '../types';
+import { PaletteError } from '../router/errors';
+import { createDistance } from '../distance';
+
+export const COLOR_VISION_DEFICIENCIES: readonly ColorVisionDeficiency[] = [
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+  'achromatopsia',
+];
+
+const toRgb = converter('rgb');
+const difference = createDistance('ciede2000');
+
+/**
+ * Creates a function that shows a color as seen with a color vision deficiency.
+ * @param deficiency The deficiency to simulate. Achromatopsia is simulated as a loss of all hue.
+ * @param severity From 0 (normal vision) to 1 (complete deficiency). Defaults to 1.
+ * @throws {PaletteError} If the deficiency is unknown or the severity is out of range.
+ */
+export function cvdFilter(deficiency: ColorVisionDeficiency, severity = 1): (color: Color) => Color {
+  if (typeof severity !== 'number' || !(severity >= 0 && severity <= 1)) {
+    throw new PaletteError(`CVD severity must be between 0 and 1, got ${severity}.`);
+  }
+  switch (deficiency) {
+    case 'protanopia':
+      return (color) => filterDeficiencyProt(severity)(toRgb(color));
+    case 'deuteranopia':
+      return (color) => filterDeficiencyDeuter(severity)(toRgb(color));
+    case 'tritanopia':
+      return (color) => filterDeficiencyTrit(severity)(toRgb(color));
+    case 'achromatopsia':
+      return (color) => filterGrayscale(severity)(toRgb(color));
+    default:
+      throw new PaletteError(
+        `Unknown color vision deficiency "${deficiency}". Use one of: ${COLOR_VISION_DEFICIENCIES.join(', ')}.`,
+      );
+  }
+}
+
+/**
+ * Finds pairs of colors that are distinguishable with normal vision but not under a simulated deficiency.
+ * @param colors Keys and their resolved values.
+ * @param options The deficiencies to simulate, their severity, and the CIEDE2000 distance below which
+ *                two colors count as indistinguishable.
+ * @returns One conflict per pair and deficiency, ordered by deficiency, then by how close the pair becomes.
+ */
+export function findIndistinguishablePairs(
+  colors: Array<[ColorKey, ColorValue]>,
+  options: { deficiencies: readonly ColorVisionDeficiency[]; severity: number; threshold: number },
+): CVDConflict[] {
+  const parsed = colors.flatMap(([key, value]) => {
+    const color = parse(value);
+    return color ? [{ key, value, color }] : [];
+  });
+  const conflicts: CVDConflict[] = [];
+
+  for (const deficiency of options.deficiencies) {
+    const simulate = cvdFilter(deficiency, options.severity);
+    const simulated = parsed.map(({ color }) => simulate(color));
+    const found: CVDConflict[] = [];
+
+    for (let i = 0; i < parsed.length; i++) {
+      for (let j = i + 1; j < parsed.length; j++) {
+        const normalDistance = difference(parsed[i].color, parsed[j].color);
+        if (normalDistance < options.threshold) continue;
+        const simulatedDistance = difference(simulated[i], simulated[j]);
+        if (simulatedDistance >= options.threshold) continue;
+        found.push({
+          keys: [parsed[i].key, parsed[j].key],
+          deficiency,
+          normalDistance,
+          simulatedDistance,
+          values: [parsed[i].value, parsed[j].value],
+        });
+      }
+    }
+    conflicts.push(...found.sort((a, b) => a.simulatedDistance - b.simulatedDistance));
+  }
+  return conflicts;
+}
@@ -0,0 +1,10 @@
+export {
+  apcaContrast,
+  apcaMinimumFontSize,
+  apcaRequiredContrast,
+  contrastRatio,
+  measureContrast,
+  WCAG_LEVELS,
+} from './contrast';
+export { cvdFilter, findIndistinguishablePairs, COLOR_VISION_DEFICIENCIES } from './cvd';
+export type { ContrastMeasurement } from './contrast';
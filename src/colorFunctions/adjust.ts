@@ -0,0 +1,307 @@
+import { parse, formatCss, converter } from 'culori';
+import type { Color } from 'culori';
+import type { FunctionRenderer } from '../renderers';
+import { interpolatePremultiplied } from '../router/colorMixing';
+import type { AdjustMethod, AdjustSpace } from '../types';
+import { PaletteError } from '../router/errors';
+
+type Channel = 'lightness' | 'chroma' | 'alpha';
+
+interface SpaceChannels {
+  channels: string[]; // In the order of CSS relative color syntax
+  lightness: string;
+  chroma: string;
+  // Ranges in culori and in CSS relative color syntax, e.g. HSL lightness is 0–1 in culori but 0–100 in CSS.
+  // Amounts are fractions of these ranges, like percentages in CSS (100% OKLCH chroma is 0.4).
+  range: { lightness: number; chroma: number };
+  cssRange: { lightness: number; chroma: number };
+  maxChroma: boolean; // Whether chroma is clamped to its range (HSL saturation) or only to 0
+}
+
+const ADJUST_SPACES: Record<AdjustSpace, SpaceChannels> = {
+  oklch: {
+    channels: ['l', 'c', 'h'],
+    lightness: 'l',
+    chroma: 'c',
+    range: { lightness: 1, chroma: 0.4 },
+    cssRange: { lightness: 1, chroma: 0.4 },
+    maxChroma: false,
+  },
+  lch: {
+    channels: ['l', 'c', 'h'],
+    lightness: 'l',
+    chroma: 'c',
+    range: { lightness: 100, chroma: 150 },
+    cssRange: { lightness: 100, chroma: 150 },
+    maxChroma: false,
+  },
+  hsl: {
+    channels: ['h', 's', 'l'],
+    lightness: 'l',
+    chroma: 's',
+    range: { lightness: 1, chroma: 1 },
+    cssRange: { lightness: 100, chroma: 100 },
+    maxChroma: true,
+  },
+};
+
+const round = (value: number) => Number(value.toFixed(4));
+
+/**
+ * Reads an amount given as a fraction (`0.1`) or a percentage string (`'10%'`).
+ */
+function parseAmount(name: string, amount: number | string): number {
+  const value = typeof amount === 'string' && amount.trim().endsWith('%') ? parseFloat(amount) / 100 : Number(amount);
+  if (!Number.isFinite(value))
+    throw new PaletteError(`${name}: amount must be a number or a percentage, got "${amount}".`);
+  return value;
+}
+
+function parseColor(name: string, color: string): Color {
+  const parsed = parse(color);
+  if (!parsed) throw new PaletteError(`${name}: cannot parse "${color}" as a color.`);
+  return parsed;
+}
+
+function getSpace(name: string, space: AdjustSpace): SpaceChannels {
+  const channels = ADJUST_SPACES[space];
+  if (!channels) throw new PaletteError(`${name}: unsupported space "${space}". Use 'oklch', 'lch' or 'hsl'.`);
+  return channels;
+}
+
+/**
+ * Computes an adjusted channel value. `direction` is 1 to increase the channel and -1 to decrease it.
+ * With `add`, the amount (a fraction of `range`) is added; with `scale`, increases move the given share of the
+ * way towards `max` (or grow by that share if there is none) and decreases shrink by that share.
+ */
+function adjustValue(
+  value: number,
+  amount: number,
+  direction: 1 | -1,
+  method: 'add' | 'scale',
+  range: number,
+  max?: number,
+) {
+  let adjusted: number;
+  if (method === 'add') {
+    adjusted = value + direction * amount * range;
+  } else if (direction === 1) {
+    adjusted = max === undefined ? value * (1 + amount) : value + (max - value) * amount;
+  } else {
+    adjusted = value * (1 - amount);
+  }
+  return Math.max(0, max === undefined ? adjusted : Math.min(max, adjusted));
+}
+
+/**
+ * Renders the same adjustment as `adjustValue` for a channel keyword of CSS relative color syntax.
+ */
+function renderValue(
+  channel: string,
+  amount: number,
+  direction: 1 | -1,
+  method: 'add' | 'scale',
+  range: number,
+  max?: number,
+) {
+  let expression: string;
+  if (method === 'add') {
+    expression = `${channel} ${direction === 1 ? '+' : '-'} ${round(amount * range)}`;
+  } else if (direction === 1 && max !== undefined) {
+    expression = `${channel} + (${max} - ${channel}) * ${round(amount)}`;
+  } else {
+    expression = `${channel} * ${round(direction === 1 ? 1 + amount : 1 - amount)}`;
+  }
+  if (direction === 1 && max !== undefined) return `min(${expression}, ${max})`;
+  return direction === 1 ? `calc(${expression})` : `max(${expression}, 0)`;
+}
+
+/**
+ * Mixes a color with white or black in `space`, as CSS `color-mix()` does.
+ */
+function mixWith(color: Color, target: 'white' | 'black', amount: number, space: AdjustSpace): Color {
+  // White and black are achromatic, so the mix keeps the color's hue
+  return interpolatePremultiplied(color, parse(target)!, space, Math.min(1, Math.max(0, amount)));
+}
+
+function renderMix(color: string, target: 'white' | 'black', amount: number, space: AdjustSpace): string {
+  const percentage = round(Math.min(1, Math.max(0, amount)) * 100);
+  return `color-mix(in ${space}, ${color} ${round(100 - percentage)}%, ${target})`;
+}
+
+/**
+ * Adjusts the lightness, chroma or alpha channel of a color.
+ * @returns The adjusted color in the input's own color space, so wide-gamut colors and alpha survive.
+ */
+export function adjustChannel(
+  name: string,
+  color: string,
+  channel: Channel,
+  rawAmount: number | string,
+  direction: 1 | -1,
+  space: AdjustSpace,
+  method: AdjustMethod,
+): string {
+  const parsed = parseColor(name, color);
+  const amount = parseAmount(name, rawAmount);
+  const spaceChannels = getSpace(name, space);
+
+  if (method === 'mix') {
+    if (channel !== 'lightness') throw new PaletteError(`${name}: the 'mix' method only applies to lightness.`);
+    return formatCss(converter(parsed.mode)(mixWith(parsed, direction === 1 ? 'white' : 'black', amount, space)));
+  }
+  if (method !== 'add' && method !== 'scale') {
+    throw new PaletteError(`${name}: unknown method "${method}". Use 'add', 'scale' or 'mix'.`);
+  }
+
+  if (channel === 'alpha') {
+    return formatCss({ ...parsed, alpha: adjustValue(parsed.alpha ?? 1, amount, direction, method, 1, 1) });
+  }
+  const inSpace = converter(space)(parsed) as Record<string, any>;
+  const key = spaceChannels[channel];
+  const range = spaceChannels.range[channel];
+  const max = channel === 'lightness' || spaceChannels.maxChroma ? range : undefined;
+  const adjusted = { ...inSpace, [key]: adjustValue(inSpace[key] ?? 0, amount, direction, method, range, max) };
+  return formatCss(converter(parsed.mode)(adjusted as Color));
+}
+
+/**
+ * Renders `adjustChannel` as CSS relative color syntax, e.g. `oklch(from var(--brand) calc(l + 0.1) c h)`,
+ * or as `color-mix()` for the `mix` method.
+ */
+export function renderAdjustment(
+  color: string,
+  channel: Channel,
+  rawAmount: number | string,
+  direction: 1 | -1,
+  space: AdjustSpace = 'oklch',
+  method: AdjustMethod = 'add',
+): string {
+  const amount = parseAmount('render', rawAmount);
+  const spaceChannels = ADJUST_SPACES[space] ?? ADJUST_SPACES.oklch;
+  if (method === 'mix') return renderMix(color, direction === 1 ? 'white' : 'black', amount, space);
+
+  if (channel === 'alpha') {
+    const alpha = renderValue('alpha', amount, direction, method, 1, 1);
+    return `${space}(from ${color} ${spaceChannels.channels.join(' ')} / ${alpha})`;
+  }
+  const key = spaceChannels[channel];
+  const range = spaceChannels.cssRange[channel];
+  const max = channel === 'lightness' || spaceChannels.maxChroma ? range : undefined;
+  const channels = spaceChannels.channels.map((name) =>
+    name === key ? renderValue(name, amount, direction, method, range, max) : name,
+  );
+  return `${space}(from ${color} ${channels.join(' ')})`;
+}
+
+const noJsonRenderer = (_args: any[]): string => {
+  return '';
+};
+
+/**
+ * Increases the chroma (saturation in HSL) of a color.
+ * @param color The color to adjust.
+ * @param amount A fraction or percentage of the chroma range (0.4 in OKLCH, 150 in LCH, 100% in HSL) with `add`,
+ *               or the share to grow by with `scale`.
+ * @param space `'oklch'` (default), `'lch'` or `'hsl'`.
+ * @param method `'add'` (default) or `'scale'`.
+ */
+export function saturate(
+  color: string,
+  amount: number | string,
+  space: AdjustSpace = 'oklch',
+  method: AdjustMethod = 'add',
+): string {
+  return adjustChannel('saturate', color, 'chroma', amount, 1, space, method);
+}
+
+/**
+ * Decreases the chroma (saturation in HSL) of a color, down to gray.
+ * @param color The color to adjust.
+ * @param amount A fraction or percentage of the chroma range with `add`, or the share to remove with `scale`.
+ * @param space `'oklch'` (default), `'lch'` or `'hsl'`.
+ * @param method `'add'` (default) or `'scale'`.
+ */
+export function desaturate(
+  color: string,
+  amount: number | string,
+  space: AdjustSpace = 'oklch',
+  method: AdjustMethod = 'add',
+): string {
+  return adjustChannel('desaturate', color, 'chroma', amount, -1, space, method);
+}
+
+/**
+ * Mixes a color with white.
+ * @param color The color to tint.
+ * @param amount The share of white, from 0 to 1 (or a percentage).
+ * @param space The space to mix in: `'oklch'` (default), `'lch'` or `'hsl'`.
+ */
+export function tint(color: string, amount: number | string, space: AdjustSpace = 'oklch'): string {
+  return adjustChannel('tint', color, 'lightness', amount, 1, space, 'mix');
+}
+
+/**
+ * Mixes a color with black.
+ * @param color The color to shade.
+ * @param amount The share of black, from 0 to 1 (or a percentage).
+ * @param space The space to mix in: `'oklch'` (default), `'lch'` or `'hsl'`.
+ */
+export function shade(color: string, amount: number | string, space: AdjustSpace = 'oklch'): string {
+  return adjustChannel('shade', color, 'lightness', amount, -1, space, 'mix');
+}
+
+/**
+ * Makes a color more transparent.
+ * @param color The color to fade.
+ * @param amount With `add` (default), the opacity to subtract; with `scale`, the share of the opacity to remove.
+ * @param method `'add'` or `'scale'`.
+ */
+export function fade(color: string, amount: number | string, method: AdjustMethod = 'add'): string {
+  return adjustChannel('fade', color, 'alpha', amount, -1, 'oklch', method);
+}
+
+export const saturateRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, amount, space, method] = args;
+    return renderAdjustment(color, 'chroma', amount, 1, space, method);
+  },
+
+  json: noJsonRenderer,
+};
+
+export const desaturateRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, amount, space, method] = args;
+    return renderAdjustment(color, 'chroma', amount, -1, space, method);
+  },
+
+  json: noJsonRenderer,
+};
+
+export const tintRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, amount, space] = args;
+    return renderAdjustment(color, 'lightness', amount, 1, space, 'mix');
+  },
+
+  json: noJsonRenderer,
+};
+
+export const shadeRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, amount, space] = args;
+    return renderAdjustment(color, 'lightness', amount, -1, space, 'mix');
+  },
+
+  json: noJsonRenderer,
+};
+
+export const fadeRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, amount, method] = args;
+    return renderAdjustment(color, 'alpha', amount, -1, 'oklch', method);
+  },
+
+  json: noJsonRenderer,
+};
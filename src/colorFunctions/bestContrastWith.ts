@@ -1,9 +1,11 @@
-import { wcagContrast, parse } from 'culori';
+import { parse } from 'culori';
 import type { ColorRouter } from '../router';
 import type { FunctionRenderer } from '../renderers';
+import type { ContrastAlgorithm } from '../types';
+import { contrastRatio } from '../accessibility';
 
 /**
- * Finds the color from a specified palette (or black/white as a fallback) that has the best WCAG contrast ratio against a target color.
+ * Finds the color from a specified palette (or black/white as a fallback) that has the best contrast against a target color.
  *
  * The `this` context must be bound to a `ColorRouter` instance.
  *
@@ -12,28 +14,38 @@ import type { FunctionRenderer } from '../renderers';
  * @param paletteName Optional. The name of the palette to search for the contrasting color.
  *                    If not provided, or if the palette is not found or is empty,
  *                    it defaults to choosing between black ("#000000") and white ("#ffffff").
+ * @param algorithm `'wcag2'` (default) or `'apca'`. APCA treats the candidates as text on the target background
+ *                  and compares the magnitude of their Lc values.
  * @returns The color string from the palette (or black/white) that has the highest contrast ratio with the target color.
  *          Returns black ("#000000") if the target color string is invalid.
  */
-export function bestContrastWith(this: ColorRouter, targetColorStr: string, paletteName?: string): string {
+export function bestContrastWith(
+  this: ColorRouter,
+  targetColorStr: string,
+  paletteName?: string,
+  algorithm: ContrastAlgorithm = 'wcag2',
+): string {
   const parsedTargetColor = parse(targetColorStr);
   if (!parsedTargetColor) {
     return '#000000';
   }
 
+  const measure = (color: string) => Math.abs(contrastRatio(color, targetColorStr, algorithm));
+  const blackOrWhite = () => (measure('#fff') >= measure('#000') ? '#ffffff' : '#000000');
+
   if (!paletteName) {
-    return wcagContrast('#fff', targetColorStr) >= wcagContrast('#000', targetColorStr) ? '#ffffff' : '#000000';
+    return blackOrWhite();
   }
 
   if (!this.getAllPalettes().find((p) => p.name === paletteName)) {
     console.warn(`Palette "${paletteName}" not found, falling back to black/white contrast.`);
-    return wcagContrast('#fff', targetColorStr) >= wcagContrast('#000', targetColorStr) ? '#ffffff' : '#000000';
+    return blackOrWhite();
   }
 
   const paletteKeys = this.getAllKeysForPalette(paletteName);
   if (paletteKeys.length === 0) {
     console.warn(`Palette "${paletteName}" has no colors, falling back to black/white contrast.`);
-    return wcagContrast('#fff', targetColorStr) >= wcagContrast('#000', targetColorStr) ? '#ffffff' : '#000000';
+    return blackOrWhite();
   }
 
   let bestColor: string | null = null;
@@ -43,7 +55,7 @@ export function bestContrastWith(this: ColorRouter, targetColorStr: string, pale
     try {
       const candidateColor = this.resolve(key);
       if (candidateColor && candidateColor !== 'invalid' && parse(candidateColor)) {
-        const contrast = wcagContrast(candidateColor, targetColorStr);
+        const contrast = measure(candidateColor);
         if (contrast > bestContrast) {
           bestContrast = contrast;
           bestColor = candidateColor;
@@ -61,7 +73,7 @@ export function bestContrastWith(this: ColorRouter, targetColorStr: string, pale
   console.warn(
     `No suitable contrasting color found in palette "${paletteName}" for target "${targetColorStr}". Falling back to black/white contrast.`,
   );
-  return wcagContrast('#fff', targetColorStr) >= wcagContrast('#000', targetColorStr) ? '#ffffff' : '#000000';
+  return blackOrWhite();
 }
 
 /**
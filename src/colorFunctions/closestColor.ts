@@ -1,21 +1,26 @@
-import { parse, differenceEuclidean } from 'culori';
+import { parse } from 'culori';
 import type { ColorRouter } from '../router';
 import type { FunctionRenderer } from '../renderers';
+import type { DistanceMetric } from '../types';
+import { createDistance } from '../distance';
 
 /**
  * Finds the color in a specified palette that is perceptually closest to a target color.
  * @param this The ColorRouter instance.
  * @param targetColorValue The target color (e.g., 'red', '#FF0000').
  * @param paletteName The name of the palette to search within.
- * @param _options Optional additional parameters.
+ * @param metric How to measure distance; see `createDistance`. Defaults to `'srgb'` (Euclidean sRGB).
  * @returns The hex string of the closest color found in the palette, or transparent black if errors occur.
+ * @throws {PaletteError} If the metric is unknown.
  */
 export function closestColor(
   this: ColorRouter,
   targetColorValue: string,
   paletteName: string,
-  ..._options: any[]
+  metric: DistanceMetric = 'srgb',
 ): string {
+  const differenceFn = createDistance(metric);
+
   if (typeof targetColorValue !== 'string') {
     console.error('[closestColor] targetColorValue must be a string.');
     return '#00000000';
@@ -47,8 +52,6 @@ export function closestColor(
   let closestColorHex = '';
   let minDifference = Infinity;
 
-  const differenceFn = differenceEuclidean('rgb');
-
   for (const key of paletteKeys) {
     const paletteColorValue = this.resolve(key);
 
@@ -1,16 +1,19 @@
-import { parse, interpolate, formatHex } from 'culori';
+import { parse, formatCss } from 'culori';
 import type { FunctionRenderer } from '../renderers';
+import { PaletteError } from '../router/errors';
+import { interpolatePremultiplied } from '../router/colorMixing';
 
 /**
  * Mixes two colors together in a specified color space.
  *
  * @param color1 The first color string (e.g., "#RRGGBB", "rgb(r,g,b)").
  * @param color2 The second color string.
- * @param ratio The mixing ratio, a number between 0 and 1 (default is 0.5). 
+ * @param ratio The mixing ratio, a number between 0 and 1 (default is 0.5).
  *              If a string is provided, it's parsed as a percentage (e.g., "50%" becomes 0.5).
  *              A ratio of 0 results in `color1`, a ratio of 1 results in `color2`.
  * @param colorSpace The color space for interpolation (e.g., 'lab', 'lch', 'rgb'). Defaults to 'lab'.
- * @returns The resulting mixed color as a hex string. Returns `color1` if parsing fails or an error occurs.
+ * @returns The resulting mixed color as a CSS color string in `colorSpace`, without gamut clipping.
+ * @throws {PaletteError} If either color cannot be parsed, so the router can record the error and use the key's fallback.
  */
 export function colorMix(
   color1: string,
@@ -18,17 +21,15 @@ export function colorMix(
   ratio: number | string = 0.5,
   colorSpace: string = 'lab',
 ): string {
-  try {
-    const parsed1 = parse(color1);
-    const parsed2 = parse(color2);
-    if (!parsed1 || !parsed2) return color1;
-
-    const interpolator = interpolate([parsed1, parsed2], colorSpace as any);
-    const ratioNum = typeof ratio === 'string' ? parseFloat(ratio) / 100 : ratio;
-    return formatHex(interpolator(ratioNum));
-  } catch (e) {
-    return color1;
+  const parsed1 = parse(color1);
+  const parsed2 = parse(color2);
+  if (!parsed1 || !parsed2) {
+    throw new PaletteError(`colorMix: cannot parse "${parsed1 ? color2 : color1}" as a color.`);
   }
+
+  const ratioNum = typeof ratio === 'string' ? parseFloat(ratio) / 100 : ratio;
+  // Premultiplied like color-mix(), so translucent colors mix the same way as in their CSS
+  return formatCss(interpolatePremultiplied(parsed1, parsed2, colorSpace, ratioNum));
 }
 
 /**
@@ -1,43 +1,25 @@
-import { parse, converter } from 'culori';
+import { parse } from 'culori';
 import type { ColorRouter } from '../router';
 import type { FunctionRenderer } from '../renderers';
-
-/**
- * Calculates the CIELAB Delta E (Euclidean distance) between two colors.
- * @param color1 The first color string.
- * @param color2 The second color string.
- * @returns The perceptual distance between the two colors. Returns 0 if parsing fails or an error occurs.
- */
-function colorDistance(color1: string, color2: string): number {
-  try {
-    const toLab = converter('lab');
-    const lab1 = toLab(parse(color1));
-    const lab2 = toLab(parse(color2));
-
-    if (!lab1 || !lab2) return 0;
-
-    const deltaL = (lab1.l || 0) - (lab2.l || 0);
-    const deltaA = (lab1.a || 0) - (lab2.a || 0);
-    const deltaB = (lab1.b || 0) - (lab2.b || 0);
-
-    return Math.sqrt(deltaL * deltaL + deltaA * deltaA + deltaB * deltaB);
-  } catch (e) {
-    return 0;
-  }
-}
+import type { DistanceMetric } from '../types';
+import { createDistance } from '../distance';
 
 /**
  * Finds the color within a specified palette that has the greatest average perceptual distance
- * to all other colors in the same palette. The distance is calculated in the CIELAB color space.
+ * to all other colors in the same palette.
  *
  * The `this` context must be bound to a `ColorRouter` instance.
  *
  * @param this The ColorRouter instance.
  * @param paletteName The name of the palette to search within.
+ * @param metric How to measure distance; see `createDistance`. Defaults to `'deltaE76'` (Euclidean CIELAB).
  * @returns The hex string of the color that is, on average, furthest from other colors in the palette.
  *          Returns black ("#000000") if the palette is not found, is empty, or contains no valid/resolvable colors.
+ * @throws {PaletteError} If the metric is unknown.
  */
-export function furthestFrom(this: ColorRouter, paletteName: string): string {
+export function furthestFrom(this: ColorRouter, paletteName: string, metric: DistanceMetric = 'deltaE76'): string {
+  const distance = createDistance(metric);
+
   if (!this.getAllPalettes().find((p) => p.name === paletteName)) {
     console.warn(`Palette "${paletteName}" not found, returning black`);
     return '#000000';
@@ -81,13 +63,14 @@ export function furthestFrom(this: ColorRouter, paletteName: string): string {
   let furthestColor: string = validColors[0].color;
   let maxAverageDistance = 0;
 
+  const parsedColors = new Map(validColors.map(({ color }) => [color, parse(color)!]));
   for (const { color: currentColor } of validColors) {
     let totalDistance = 0;
     let comparisonCount = 0;
 
     for (const { color: otherColor } of validColors) {
       if (currentColor !== otherColor) {
-        totalDistance += colorDistance(currentColor, otherColor);
+        totalDistance += distance(parsedColors.get(currentColor)!, parsedColors.get(otherColor)!);
         comparisonCount++;
       }
     }
@@ -0,0 +1,154 @@
+import { parse, formatCss, converter } from 'culori';
+import type { FunctionRenderer } from '../renderers';
+import type { HueSpace } from '../types';
+import { PaletteError } from '../router/errors';
+
+// CSS relative color syntax lists the channels in this order; the hue is always `h`
+const HUE_SPACE_CHANNELS: Record<HueSpace, string[]> = {
+  oklch: ['l', 'c', 'h'],
+  lch: ['l', 'c', 'h'],
+  hsl: ['h', 's', 'l'],
+  hwb: ['h', 'w', 'b'],
+};
+
+/**
+ * Rotates the hue of a color in a cylindrical color space. Achromatic colors have no hue and are returned unchanged.
+ * @returns The rotated color as a CSS color in `space`.
+ * @throws {PaletteError} If the color cannot be parsed or the space has no hue channel.
+ */
+function rotateHue(name: string, color: string, degrees: number, space: HueSpace): string {
+  const parsed = parse(color);
+  if (!parsed) throw new PaletteError(`${name}: cannot parse "${color}" as a color.`);
+  if (!(space in HUE_SPACE_CHANNELS)) {
+    throw new PaletteError(`${name}: unsupported hue space "${space}". Use 'oklch', 'lch', 'hsl' or 'hwb'.`);
+  }
+
+  const inSpace = converter(space)(parsed);
+  if (inSpace.h === undefined) return formatCss(inSpace);
+  return formatCss({ ...inSpace, h: (((inSpace.h + degrees) % 360) + 360) % 360 });
+}
+
+function requireIndex(name: string, index: number, count: number): void {
+  if (!Number.isInteger(index) || index < 0 || index >= count) {
+    throw new PaletteError(`${name}: index must be an integer from 0 to ${count - 1}, got ${index}.`);
+  }
+}
+
+/**
+ * Renders a hue rotation as CSS relative color syntax, e.g. `oklch(from var(--brand) l c calc(h + 120))`.
+ */
+function renderRotation(color: string, degrees: number, space: HueSpace = 'oklch'): string {
+  const rotation = degrees === 0 ? 'h' : `calc(h ${degrees < 0 ? '-' : '+'} ${Math.abs(degrees)})`;
+  const channels = (HUE_SPACE_CHANNELS[space] ?? HUE_SPACE_CHANNELS.oklch).map((channel) =>
+    channel === 'h' ? rotation : channel,
+  );
+  return `${space}(from ${color} ${channels.join(' ')})`;
+}
+
+const noJsonRenderer = (_args: any[]): string => {
+  return '';
+};
+
+/**
+ * Gets the complementary color, opposite on the hue wheel.
+ * @param color The base color.
+ * @param space The hue space to rotate in: `'oklch'` (default), `'lch'`, `'hsl'` or `'hwb'`.
+ */
+export function complement(color: string, space: HueSpace = 'oklch'): string {
+  return rotateHue('complement', color, 180, space);
+}
+
+/**
+ * Gets a color of the triad the base color belongs to, 120° apart.
+ * @param color The base color.
+ * @param index 0 (the base color), 1 (+120°, default) or 2 (+240°).
+ * @param space The hue space to rotate in: `'oklch'` (default), `'lch'`, `'hsl'` or `'hwb'`.
+ */
+export function triad(color: string, index = 1, space: HueSpace = 'oklch'): string {
+  requireIndex('triad', index, 3);
+  return rotateHue('triad', color, index * 120, space);
+}
+
+/**
+ * Gets a neighbor of the base color on the hue wheel.
+ * @param color The base color.
+ * @param index How many steps to go; negative values go the other way. Defaults to 1.
+ * @param angle Degrees per step. Defaults to 30.
+ * @param space The hue space to rotate in: `'oklch'` (default), `'lch'`, `'hsl'` or `'hwb'`.
+ */
+export function analogous(color: string, index = 1, angle = 30, space: HueSpace = 'oklch'): string {
+  if (!Number.isInteger(index)) throw new PaletteError(`analogous: index must be an integer, got ${index}.`);
+  return rotateHue('analogous', color, index * angle, space);
+}
+
+/**
+ * Gets one of the two colors beside the complement.
+ * @param color The base color.
+ * @param index 0 (the base color), 1 (180° − angle, default) or 2 (180° + angle).
+ * @param angle Distance from the complement in degrees. Defaults to 30.
+ * @param space The hue space to rotate in: `'oklch'` (default), `'lch'`, `'hsl'` or `'hwb'`.
+ */
+export function splitComplement(color: string, index = 1, angle = 30, space: HueSpace = 'oklch'): string {
+  requireIndex('splitComplement', index, 3);
+  return rotateHue('splitComplement', color, splitComplementRotation(index, angle), space);
+}
+
+function splitComplementRotation(index: number, angle: number): number {
+  return index === 0 ? 0 : index === 1 ? 180 - angle : 180 + angle;
+}
+
+/**
+ * Gets a color of the square tetrad the base color belongs to, 90° apart.
+ * @param color The base color.
+ * @param index 0 (the base color), 1 (+90°, default), 2 (+180°) or 3 (+270°).
+ * @param space The hue space to rotate in: `'oklch'` (default), `'lch'`, `'hsl'` or `'hwb'`.
+ */
+export function tetrad(color: string, index = 1, space: HueSpace = 'oklch'): string {
+  requireIndex('tetrad', index, 4);
+  return rotateHue('tetrad', color, index * 90, space);
+}
+
+export const complementRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, space] = args;
+    return renderRotation(color, 180, space);
+  },
+
+  json: noJsonRenderer,
+};
+
+export const triadRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, index = 1, space] = args;
+    return renderRotation(color, Number(index) * 120, space);
+  },
+
+  json: noJsonRenderer,
+};
+
+export const analogousRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, index = 1, angle = 30, space] = args;
+    return renderRotation(color, Number(index) * Number(angle), space);
+  },
+
+  json: noJsonRenderer,
+};
+
+export const splitComplementRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, index = 1, angle = 30, space] = args;
+    return renderRotation(color, splitComplementRotation(Number(index), Number(angle)), space);
+  },
+
+  json: noJsonRenderer,
+};
+
+export const tetradRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [color, index = 1, space] = args;
+    return renderRotation(color, Number(index) * 90, space);
+  },
+
+  json: noJsonRenderer,
+};
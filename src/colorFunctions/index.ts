@@ -6,5 +6,32 @@ export { lighten, lightenRenderers } from './lighten';
 export { darken, darkenRenderers } from './darken';
 export { furthestFrom, furthestFromRenderers } from './furthestFrom';
 export { closestColor, closestColorRenderers } from './closestColor';
+export { simulateCVD, simulateCVDRenderers } from './simulateCVD';
+export { toGamut, toGamutRenderers } from './toGamut';
+export { scaleStep, scaleStepRenderers } from './scaleStep';
+export {
+  saturate,
+  saturateRenderers,
+  desaturate,
+  desaturateRenderers,
+  tint,
+  tintRenderers,
+  shade,
+  shadeRenderers,
+  fade,
+  fadeRenderers,
+} from './adjust';
+export {
+  complement,
+  complementRenderers,
+  triad,
+  triadRenderers,
+  analogous,
+  analogousRenderers,
+  splitComplement,
+  splitComplementRenderers,
+  tetrad,
+  tetradRenderers,
+} from './harmony';
 
 export type { FunctionRenderer } from '../renderers';
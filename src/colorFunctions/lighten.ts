@@ -1,28 +1,33 @@
-import { parse, formatHex, converter } from 'culori';
 import type { FunctionRenderer } from '../renderers';
+import type { AdjustMethod, AdjustSpace } from '../types';
+import { adjustChannel, renderAdjustment } from './adjust';
 
-export function lighten(color: string, amount: number): string {
-  try {
-    const c = parse(color);
-    if (!c) return color;
-
-    const toHsl = converter('hsl');
-    const hslColor = toHsl(c);
-    if (hslColor && typeof hslColor.l === 'number') {
-      hslColor.l = Math.min(1, hslColor.l + amount);
-      return formatHex(hslColor);
-    }
-    return color;
-  } catch (e) {
-    return color;
-  }
+/**
+ * Makes a color lighter.
+ * @param color The color to lighten.
+ * @param amount With `add`, a fraction or percentage of the lightness range, e.g. 0.1 adds 0.1 to OKLCH lightness
+ *               and 10 to LCH or HSL lightness. With `scale`, the share of the way to white; with `mix`, the share
+ *               of white mixed in.
+ * @param space `'oklch'` (default), `'lch'` or `'hsl'`.
+ * @param method `'add'` (default), `'scale'` or `'mix'`.
+ * @returns The lighter color in the input's own color space, so wide-gamut colors and alpha survive.
+ */
+export function lighten(
+  color: string,
+  amount: number | string,
+  space: AdjustSpace = 'oklch',
+  method: AdjustMethod = 'add',
+): string {
+  return adjustChannel('lighten', color, 'lightness', amount, 1, space, method);
 }
 
+/**
+ * Renders the same operation the color resolves with, e.g. `oklch(from var(--brand) min(l + 0.1, 1) c h)`.
+ */
 export const lightenRenderers: Record<string, FunctionRenderer> = {
   'css-variables': (args: any[]): string => {
-    const [color, amount] = args;
-    const percentage = Math.round(parseFloat(amount) * 100);
-    return `color-mix(in oklch, ${color} ${100 - percentage}%, white)`;
+    const [color, amount, space, method] = args;
+    return renderAdjustment(color, 'lightness', amount, 1, space, method);
   },
 
   json: (_args: any[]): string => {
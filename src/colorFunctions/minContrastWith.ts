@@ -1,9 +1,12 @@
-import { wcagContrast, parse } from 'culori';
+import { parse } from 'culori';
 import type { ColorRouter } from '../router';
 import type { FunctionRenderer } from '../renderers';
+import type { ContrastAlgorithm } from '../types';
+import { apcaRequiredContrast, contrastRatio } from '../accessibility';
+import { PaletteError } from '../router/errors';
 
 /**
- * Finds a color from a specified palette (or black/white as a fallback) that meets a minimum WCAG contrast ratio
+ * Finds a color from a specified palette (or black/white as a fallback) that meets a minimum contrast
  * against a target color. If multiple colors meet the criteria, it returns the one closest to the minimum ratio.
  * If no color meets the minimum ratio, it returns the color with the highest contrast.
  * If the palette is empty or no valid colors are found, it defaults to black or white.
@@ -14,44 +17,51 @@ import type { FunctionRenderer } from '../renderers';
  * @param targetColor The target color string (e.g., "#RRGGBB", "rgb(r,g,b)") to contrast against.
  * @param paletteName Optional. The name of the palette to search. If not provided or invalid,
  *                    defaults to checking black and white.
- * @param minRatio The minimum WCAG contrast ratio required (default is 4.5).
+ * @param minRatio The minimum contrast required: a WCAG ratio, or an absolute Lc value for APCA. Defaults to 4.5
+ *                 (WCAG AA) or Lc 75 (APCA body text), or to the level `fontSize` needs if it is given.
+ * @param algorithm `'wcag2'` (default) or `'apca'`. APCA treats the candidates as text on the target background.
+ * @param fontSize Optional. The text size in px, used when `minRatio` is null or omitted. For APCA the required Lc
+ *                 comes from the APCA font lookup table; for WCAG 2, text of 24px (or 18.66px bold) needs only 3.
+ * @param fontWeight The CSS font weight of the text (default is 400).
  * @returns The hex string of the color that meets the criteria. Returns black ("#000000") if `targetColor` is invalid
  *          or if no suitable color can be determined.
  */
-export function minContrastWith(this: ColorRouter, targetColor: string, paletteName?: string, minRatio = 4.5): string {
+export function minContrastWith(
+  this: ColorRouter,
+  targetColor: string,
+  paletteName?: string,
+  minRatio?: number | null,
+  algorithm: ContrastAlgorithm = 'wcag2',
+  fontSize?: number,
+  fontWeight = 400,
+): string {
   if (!parse(targetColor)) return '#000000';
 
-  if (!paletteName) {
-    const whiteContrast = wcagContrast('#fff', targetColor);
-    const blackContrast = wcagContrast('#000', targetColor);
+  const minimum = minRatio ?? requiredContrast(algorithm, fontSize, fontWeight);
+  const measure = (color: string) => Math.abs(contrastRatio(color, targetColor, algorithm));
+  const blackOrWhite = () => {
+    const whiteContrast = measure('#fff');
+    const blackContrast = measure('#000');
 
-    if (whiteContrast >= minRatio) return '#ffffff';
-    if (blackContrast >= minRatio) return '#000000';
+    if (whiteContrast >= minimum) return '#ffffff';
+    if (blackContrast >= minimum) return '#000000';
 
     return whiteContrast >= blackContrast ? '#ffffff' : '#000000';
+  };
+
+  if (!paletteName) {
+    return blackOrWhite();
   }
 
   if (!this.getAllPalettes().find((p) => p.name === paletteName)) {
     console.warn(`Palette "${paletteName}" not found, falling back to black/white`);
-    const whiteContrast = wcagContrast('#fff', targetColor);
-    const blackContrast = wcagContrast('#000', targetColor);
-
-    if (whiteContrast >= minRatio) return '#ffffff';
-    if (blackContrast >= minRatio) return '#000000';
-
-    return whiteContrast >= blackContrast ? '#ffffff' : '#000000';
+    return blackOrWhite();
   }
 
   const paletteKeys = this.getAllKeysForPalette(paletteName);
   if (paletteKeys.length === 0) {
     console.warn(`Palette "${paletteName}" has no colors, falling back to black/white`);
-    const whiteContrast = wcagContrast('#fff', targetColor);
-    const blackContrast = wcagContrast('#000', targetColor);
-
-    if (whiteContrast >= minRatio) return '#ffffff';
-    if (blackContrast >= minRatio) return '#000000';
-
-    return whiteContrast >= blackContrast ? '#ffffff' : '#000000';
+    return blackOrWhite();
   }
 
   let bestColor: string | null = null;
@@ -61,9 +71,9 @@ export function minContrastWith(this: ColorRouter, targetColor: string, paletteN
     try {
       const candidateColor = this.resolve(key);
       if (candidateColor && candidateColor !== 'invalid') {
-        const contrast = wcagContrast(candidateColor, targetColor);
+        const contrast = measure(candidateColor);
 
-        if (contrast >= minRatio && contrast < closestContrast) {
+        if (contrast >= minimum && contrast < closestContrast) {
           closestContrast = contrast;
           bestColor = candidateColor;
         }
@@ -84,7 +94,7 @@ export function minContrastWith(this: ColorRouter, targetColor: string, paletteN
     try {
       const candidateColor = this.resolve(key);
       if (candidateColor && candidateColor !== 'invalid') {
-        const contrast = wcagContrast(candidateColor, targetColor);
+        const contrast = measure(candidateColor);
         if (contrast > bestContrast) {
           bestContrast = contrast;
           fallbackColor = candidateColor;
@@ -113,6 +123,22 @@ export function minContrastWith(this: ColorRouter, targetColor: string, paletteN
   return '#000000';
 }
 
+/**
+ * Gets the default minimum contrast for an algorithm, taking the text size into account if it is known.
+ */
+function requiredContrast(algorithm: ContrastAlgorithm, fontSize: number | undefined, fontWeight: number): number {
+  if (fontSize === undefined) return algorithm === 'apca' ? 75 : 4.5;
+  if (algorithm === 'wcag2') return fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700) ? 3 : 4.5;
+
+  const required = apcaRequiredContrast(fontSize, fontWeight);
+  if (required === undefined) {
+    throw new PaletteError(
+      `minContrastWith: no APCA contrast makes ${fontSize}px text at weight ${fontWeight} readable.`,
+    );
+  }
+  return required;
+}
+
 /**
  * An object containing placeholder renderer functions for the `minContrastWith` color function.
  * These renderers currently return empty strings, indicating that `minContrastWith` should be resolved to its final value
@@ -1,5 +1,6 @@
-import { parse, formatHex, converter } from 'culori';
+import { parse, formatCss, converter } from 'culori';
 import type { FunctionRenderer } from '../renderers';
+import { PaletteError } from '../router/errors';
 
 /**
  * Modifies a color relative to its current values in the specified color space
@@ -9,63 +10,58 @@ import type { FunctionRenderer } from '../renderers';
  *                       - null: keep original value
  *                       - number: set absolute value
  *                       - string with operator (+, -, *, /) and value: relative modification (e.g., '+180', '-10', '*0.5', '/2')
- * @returns The modified color as a hex string
+ * @returns The modified color as a CSS color string in `colorSpace`, without gamut clipping
+ * @throws {PaletteError} If the base color cannot be parsed or converted to `colorSpace`
  */
 export function relativeTo(baseColor: string, colorSpace: string, modifications: (number | string | null)[]): string {
-  try {
-    const parsed = parse(baseColor);
-    if (!parsed) return baseColor;
-
-    const convertToSpace = converter(colorSpace as any);
-    const colorInSpace = convertToSpace(parsed);
-
-    if (!colorInSpace) return baseColor;
-
-    const channelNames = getChannelNames(colorSpace);
-    const modified = { ...colorInSpace };
-
-    modifications.forEach((mod, index) => {
-      if (mod === null || index >= channelNames.length) return;
-
-      const channelName = channelNames[index];
-      const currentValue = (colorInSpace as any)[channelName] || 0;
-
-      if (typeof mod === 'string') {
-        const operator = mod[0];
-        const valueStr = mod.slice(1);
-        const numericValue = parseFloat(valueStr);
-
-        if (!isNaN(numericValue)) {
-          switch (operator) {
-            case '+':
-              (modified as any)[channelName] = currentValue + numericValue;
-              break;
-            case '-':
-              (modified as any)[channelName] = currentValue - numericValue;
-              break;
-            case '*':
-              (modified as any)[channelName] = currentValue * numericValue;
-              break;
-            case '/':
-              if (numericValue !== 0) {
-                (modified as any)[channelName] = currentValue / numericValue;
-              }
-              break;
-            default:
-              (modified as any)[channelName] = parseFloat(mod);
-          }
-        } else {
-          (modified as any)[channelName] = parseFloat(mod);
+  const parsed = parse(baseColor);
+  if (!parsed) throw new PaletteError(`relativeTo: cannot parse "${baseColor}" as a color.`);
+
+  const colorInSpace = converter(colorSpace as any)(parsed);
+  if (!colorInSpace) throw new PaletteError(`relativeTo: cannot convert "${baseColor}" to "${colorSpace}".`);
+
+  const channelNames = getChannelNames(colorSpace);
+  const modified = { ...colorInSpace };
+
+  modifications.forEach((mod, index) => {
+    if (mod === null || index >= channelNames.length) return;
+
+    const channelName = channelNames[index];
+    const currentValue = (colorInSpace as any)[channelName] || 0;
+
+    if (typeof mod === 'string') {
+      const operator = mod[0];
+      const valueStr = mod.slice(1);
+      const numericValue = parseFloat(valueStr);
+
+      if (!isNaN(numericValue)) {
+        switch (operator) {
+          case '+':
+            (modified as any)[channelName] = currentValue + numericValue;
+            break;
+          case '-':
+            (modified as any)[channelName] = currentValue - numericValue;
+            break;
+          case '*':
+            (modified as any)[channelName] = currentValue * numericValue;
+            break;
+          case '/':
+            if (numericValue !== 0) {
+              (modified as any)[channelName] = currentValue / numericValue;
+            }
+            break;
+          default:
+            (modified as any)[channelName] = parseFloat(mod);
         }
-      } else if (typeof mod === 'number') {
-        (modified as any)[channelName] = mod;
+      } else {
+        (modified as any)[channelName] = parseFloat(mod);
       }
-    });
+    } else if (typeof mod === 'number') {
+      (modified as any)[channelName] = mod;
+    }
+  });
 
-    return formatHex(modified);
-  } catch (e) {
-    return baseColor;
-  }
+  return formatCss(modified);
 }
 
 /**
@@ -91,6 +87,9 @@ function getChannelNames(colorSpace: string): string[] {
   return channelMap[colorSpace] || ['r', 'g', 'b', 'alpha'];
 }
 
+/** Spaces with their own CSS function; the rest are written with `color()`, e.g. `color(from ... display-p3 r g b)`. */
+const CSS_COLOR_FUNCTIONS = ['rgb', 'hsl', 'hwb', 'lab', 'lch', 'oklab', 'oklch'];
+
 /**
  * Renderer functions for different output formats
  */
@@ -136,7 +135,11 @@ export const relativeToRenderers: Record<string, FunctionRenderer> = {
       }
     }
 
-    return `color(from ${baseColor} ${colorSpace} ${channels.join(' ')}${alphaStr})`;
+    if (CSS_COLOR_FUNCTIONS.includes(colorSpace)) {
+      return `${colorSpace}(from ${baseColor} ${channels.join(' ')}${alphaStr})`;
+    }
+    const predefinedSpace = colorSpace === 'p3' ? 'display-p3' : colorSpace;
+    return `color(from ${baseColor} ${predefinedSpace} ${channels.join(' ')}${alphaStr})`;
   },
 
   json: (_args: any[]): string => {
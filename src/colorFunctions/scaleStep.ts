@@ -0,0 +1,40 @@
+import { parse, formatCss, converter } from 'culori';
+import type { FunctionRenderer } from '../renderers';
+import type { ScaleColorSpace } from '../types';
+import { PaletteError } from '../router/errors';
+
+// Lightness is passed as 0–1; CIE LCh counts it from 0 to 100
+const LIGHTNESS_SCALE: Record<ScaleColorSpace, number> = { oklch: 1, lch: 100 };
+
+/**
+ * Computes one step of a tonal scale: the seed's hue at a set lightness, with the seed's chroma scaled.
+ * Used by `generateScale`.
+ * @param seed The color the scale is built from.
+ * @param lightness The step's lightness from 0 (black) to 1 (white).
+ * @param chroma The share of the seed's chroma to keep, e.g. 0.3 near the ends of a scale.
+ * @param space `'oklch'` (default) or `'lch'`.
+ * @returns The step as a CSS color in `space`, without gamut clipping.
+ * @throws {PaletteError} If the seed cannot be parsed or the space is not supported.
+ */
+export function scaleStep(seed: string, lightness: number, chroma: number, space: ScaleColorSpace = 'oklch'): string {
+  const parsed = parse(seed);
+  if (!parsed) throw new PaletteError(`scaleStep: cannot parse "${seed}" as a color.`);
+  if (!(space in LIGHTNESS_SCALE))
+    throw new PaletteError(`scaleStep: unsupported space "${space}". Use 'oklch' or 'lch'.`);
+
+  const lch = converter(space)(parsed);
+  return formatCss({ ...lch, l: lightness * LIGHTNESS_SCALE[space], c: (lch.c ?? 0) * chroma });
+}
+
+export const scaleStepRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (args: any[]): string => {
+    const [seed, lightness, chroma, space = 'oklch'] = args;
+    const l = Number((parseFloat(lightness) * (LIGHTNESS_SCALE[space as ScaleColorSpace] ?? 1)).toFixed(4));
+    const c = parseFloat(chroma) === 1 ? 'c' : `calc(c * ${chroma})`;
+    return `${space}(from ${seed} ${l} ${c} h)`;
+  },
+
+  json: (_args: any[]): string => {
+    return '';
+  },
+};
@@ -0,0 +1,33 @@
+import { parse, formatCss } from 'culori';
+import type { FunctionRenderer } from '../renderers';
+import type { ColorVisionDeficiency } from '../types';
+import { cvdFilter } from '../accessibility';
+import { PaletteError } from '../router/errors';
+
+/**
+ * Shows a color as it appears to people with a color vision deficiency.
+ * @param color The color to transform.
+ * @param deficiency `'protanopia'`, `'deuteranopia'`, `'tritanopia'` or `'achromatopsia'`.
+ * @param severity From 0 (normal vision) to 1 (complete deficiency, the default). Lower values simulate
+ *                 anomalous trichromacy such as protanomaly.
+ * @returns The simulated color in sRGB.
+ * @throws {PaletteError} If the color cannot be parsed, or the deficiency or severity is invalid.
+ */
+export function simulateCVD(color: string, deficiency: ColorVisionDeficiency, severity = 1): string {
+  const parsed = parse(color);
+  if (!parsed) throw new PaletteError(`simulateCVD: cannot parse "${color}" as a color.`);
+  return formatCss(cvdFilter(deficiency, severity)(parsed));
+}
+
+/**
+ * Simulations have no CSS equivalent, so `simulateCVD` is always resolved to its value.
+ */
+export const simulateCVDRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (_args: any[]): string => {
+    return '';
+  },
+
+  json: (_args: any[]): string => {
+    return '';
+  },
+};
@@ -0,0 +1,40 @@
+import { parse, formatCss } from 'culori';
+import type { FunctionRenderer } from '../renderers';
+import type { GamutMapMethod, GamutSpace } from '../types';
+import { isGamutSpace, mapToGamut } from '../router/colorFormat';
+import { PaletteError } from '../router/errors';
+
+const METHODS: GamutMapMethod[] = ['css', 'chroma', 'clip'];
+
+/**
+ * Brings a color into a gamut, e.g. before it is written out as sRGB hex.
+ * @param color The color to map.
+ * @param space `'srgb'` (default), `'p3'` or `'rec2020'`.
+ * @param method `'css'` (default) reduces OKLCH chroma as the CSS Color 4 gamut mapping algorithm does, keeping
+ *               lightness and hue. `'chroma'` reduces chroma until the color fits exactly, and `'clip'` clips each
+ *               channel, which is cheaper but can shift the hue.
+ * @returns The mapped color in the gamut's RGB space. Colors already in the gamut are only converted.
+ * @throws {PaletteError} If the color cannot be parsed, or the gamut or method is unknown.
+ */
+export function toGamut(color: string, space: GamutSpace = 'srgb', method: GamutMapMethod = 'css'): string {
+  const parsed = parse(color);
+  if (!parsed) throw new PaletteError(`toGamut: cannot parse "${color}" as a color.`);
+  if (!isGamutSpace(space)) throw new PaletteError(`toGamut: unknown gamut "${space}". Use 'srgb', 'p3' or 'rec2020'.`);
+  if (!METHODS.includes(method)) {
+    throw new PaletteError(`toGamut: unknown method "${method}". Use 'css', 'chroma' or 'clip'.`);
+  }
+  return formatCss(mapToGamut(parsed, space, method));
+}
+
+/**
+ * CSS has no gamut mapping function (browsers clip), so `toGamut` is always resolved to its value.
+ */
+export const toGamutRenderers: Record<string, FunctionRenderer> = {
+  'css-variables': (_args: any[]): string => {
+    return '';
+  },
+
+  json: (_args: any[]): string => {
+    return '';
+  },
+};
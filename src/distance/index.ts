@@ -0,0 +1,2 @@
+export { colorDistance, createDistance, DISTANCE_METRICS } from './metrics';
+export type { DistanceFunction, DistanceOptions } from './metrics';
@@ -0,0 +1,67 @@
+import { parse, differenceCie76, differenceCie94, differenceCiede2000, differenceEuclidean } from 'culori';
+import type { Color } from 'culori';
+import type { DistanceMetric } from '../types';
+import { PaletteError } from '../router/errors';
+
+export type DistanceFunction = (a: Color, b: Color) => number;
+
+export interface DistanceOptions {
+  hueWeight?: number; // Weight of hue differences for 'weighted-hue'. Defaults to 2.
+}
+
+export const DISTANCE_METRICS: readonly DistanceMetric[] = [
+  'deltaE76',
+  'cie94',
+  'ciede2000',
+  'oklab',
+  'weighted-hue',
+  'srgb',
+];
+
+/**
+ * Creates a function that measures the distance between two parsed colors.
+ * Metrics use different scales: the CIE deltaE variants are around 1 for a just noticeable difference,
+ * while `oklab`, `weighted-hue` and `srgb` distances are about 100 times smaller.
+ * @param metric `'deltaE76'` (Euclidean CIELAB), `'cie94'`, `'ciede2000'`, `'oklab'` (Euclidean OKLab),
+ *               `'weighted-hue'` (Euclidean OKLCH with hue differences weighted by `hueWeight`) or `'srgb'`
+ *               (Euclidean sRGB, fast but not perceptual).
+ * @param options The hue weight for `'weighted-hue'`.
+ * @throws {PaletteError} If the metric is unknown or the hue weight is negative.
+ */
+export function createDistance(metric: DistanceMetric, options: DistanceOptions = {}): DistanceFunction {
+  switch (metric) {
+    case 'deltaE76':
+      return differenceCie76();
+    case 'cie94':
+      return differenceCie94();
+    case 'ciede2000':
+      return differenceCiede2000();
+    case 'oklab':
+      return differenceEuclidean('oklab');
+    case 'weighted-hue': {
+      const hueWeight = options.hueWeight ?? 2;
+      if (!(hueWeight >= 0)) throw new PaletteError(`Hue weight must be 0 or more, got ${hueWeight}.`);
+      return differenceEuclidean('oklch', [1, 1, hueWeight, 0]);
+    }
+    case 'srgb':
+      return differenceEuclidean('rgb');
+    default:
+      throw new PaletteError(`Unknown distance metric "${metric}". Use one of: ${DISTANCE_METRICS.join(', ')}.`);
+  }
+}
+
+/**
+ * Measures the distance between two colors.
+ * @param a The first color, as a CSS string or a culori color.
+ * @param b The second color.
+ * @param metric The metric to use. Defaults to `'ciede2000'`.
+ * @throws {PaletteError} If either color cannot be parsed or the metric is unknown.
+ */
+export function colorDistance(a: string | Color, b: string | Color, metric: DistanceMetric = 'ciede2000'): number {
+  const [first, second] = [a, b].map((color) => {
+    const parsed = typeof color === 'string' ? parse(color) : color;
+    if (!parsed) throw new PaletteError(`Cannot parse "${color}" as a color.`);
+    return parsed;
+  });
+  return createDistance(metric)(first, second);
+}
@@ -1,7 +1,27 @@
-export { ColorRouter } from './router';
-export { ColorReference, ColorFunction } from './types';
-export { PaletteError, CircularDependencyError } from './router';
-export { ColorRenderer, SVGRenderer, tableView, createTableItemFromPalette } from './renderers';
+export { ColorRouter, HistoryManager, Auditor } from './router';
+export { ColorReference, ColorFunction, ColorModes } from './types';
+export { PaletteError, CircularDependencyError, ExpressionSyntaxError } from './router';
+export {
+  ColorRenderer,
+  SVGRenderer,
+  tableView,
+  createTableItemFromPalette,
+  evaluateCssColor,
+  createCssEvaluator,
+} from './renderers';
+export { ColorStore, createColorStore } from './store';
+export {
+  apcaContrast,
+  apcaMinimumFontSize,
+  apcaRequiredContrast,
+  contrastRatio,
+  measureContrast,
+  WCAG_LEVELS,
+  cvdFilter,
+  findIndistinguishablePairs,
+  COLOR_VISION_DEFICIENCIES,
+} from './accessibility';
+export { colorDistance, createDistance, DISTANCE_METRICS } from './distance';
 export type {
   ColorValue,
   PaletteName,
@@ -10,5 +30,83 @@ export type {
   PaletteConfig,
   ColorChangeEvent,
   ColorRendererClass,
+  SerializedColorDefinition,
+  SerializedPalette,
+  SerializedColorRouter,
+  RegisteredFunction,
+  OutputColorSpace,
+  OutputFormat,
+  GamutSpace,
+  GamutMapMethod,
+  OutOfGamutColor,
+  ColorSchema,
+  SchemaKey,
+  SchemaPalette,
+  ColorConfig,
+  ColorConfigNode,
+  InferSchema,
+  ColorRouterView,
+  ContractConstraint,
+  ContractKey,
+  PaletteContract,
+  ContractReport,
+  AuditSeverity,
+  AuditRule,
+  AuditOptions,
+  AuditFinding,
+  AuditReport,
+  ContrastAlgorithm,
+  ContrastLevel,
+  ContrastPair,
+  ContrastResult,
+  AccessibilityReport,
+  AccessibilityViolationEvent,
+  ColorVisionDeficiency,
+  CVDAnalysisOptions,
+  CVDConflict,
+  CVDReport,
+  AdjustSpace,
+  AdjustMethod,
+  HueSpace,
+  DistanceMetric,
+  ScaleEasing,
+  ScaleColorSpace,
+  ScaleOptions,
+  DefineOptions,
+  ColorMetadata,
+  ColorDeprecation,
+  SafeResolveResult,
+  ModeDefinition,
+  ResolveOptions,
+  ModeChangeEvent,
+  WatchEventDetail,
+  BatchCompleteEvent,
+  BatchFailedEvent,
+  ColorRouterEventMap,
+  ColorRouterEventName,
+  ColorRouterListener,
+  WatchCallback,
+  WatchPattern,
+  Unsubscribe,
+  ListenerOptions,
 } from './types';
-export type { RenderFormat, FunctionRenderer, TableItem, TableBoundingRect, TableViewResult, TableViewOptions, SVGRenderOptions, ConnectionPoint, Connection } from './renderers';
+export type { HistoryCommand } from './router';
+export type {
+  RenderFormat,
+  FunctionRenderer,
+  ModeRenderOptions,
+  RenderOptions,
+  RenderVerificationOptions,
+  RenderMismatch,
+  RenderVerificationReport,
+  TableItem,
+  TableBoundingRect,
+  TableViewResult,
+  TableViewOptions,
+  SVGRenderOptions,
+  ConnectionPoint,
+  Connection,
+} from './renderers';
+export type { ColorSnapshot, ReadableColorStore } from './store';
+export type { ContrastMeasurement } from './accessibility';
+export type { DistanceFunction, DistanceOptions } from './distance';
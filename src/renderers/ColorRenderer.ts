@@ -1,5 +1,10 @@
-import { ColorRouter } from '../router';
-import { ColorDefinition, ColorReference, ColorFunction } from '../types';
+import { parse, formatCss } from 'culori';
+import type { Color } from 'culori';
+import { PaletteError } from '../router';
+import { formatColor, gamutOf, isInGamut } from '../router/colorFormat';
+import { ColorDefinition, ColorReference, ColorFunction, ColorModes, ColorRouterView } from '../types';
+import { createDistance } from '../distance';
+import { createCssEvaluator } from './cssEvaluator';
 import {
   bestContrastWithRenderers,
   colorMixRenderers,
@@ -8,6 +13,19 @@ import {
   lightenRenderers,
   darkenRenderers,
   furthestFromRenderers,
+  simulateCVDRenderers,
+  toGamutRenderers,
+  scaleStepRenderers,
+  complementRenderers,
+  triadRenderers,
+  analogousRenderers,
+  splitComplementRenderers,
+  tetradRenderers,
+  saturateRenderers,
+  desaturateRenderers,
+  tintRenderers,
+  shadeRenderers,
+  fadeRenderers,
 } from '../colorFunctions';
 
 /**
@@ -22,12 +40,63 @@ export type RenderFormat = 'css-variables' | 'json';
  */
 export type FunctionRenderer = (args: any[]) => string;
 
+/**
+ * Controls how theme modes are written by the 'css-variables' format.
+ */
+export interface ModeRenderOptions {
+  /**
+   * `selector` (default) writes each mode as `:root[data-mode="<mode>"]`; `media` writes it as an `@media` block
+   * (`prefers-color-scheme` for light/dark, `prefers-contrast: more` for high-contrast).
+   */
+  strategy?: 'selector' | 'media';
+  /** Per-mode selectors (selector strategy) or media queries (media strategy), e.g. `{ dark: '.theme-dark' }`. */
+  conditions?: Record<string, string>;
+}
+
+export interface RenderOptions {
+  /** Set to false to write only the active mode. */
+  modes?: ModeRenderOptions | false;
+}
+
+export interface RenderVerificationOptions {
+  /** CIEDE2000 distance above which the evaluated CSS and the resolved value count as different. Defaults to 1. */
+  threshold?: number;
+}
+
+export interface RenderMismatch {
+  key: string;
+  mode?: string; // The theme mode whose block was checked, or undefined for the `:root` block
+  css: string; // The rendered value, e.g. "color-mix(in lab, var(--brand-primary) 80%, #fff)"
+  expected: string; // The value from router.resolve()
+  actual?: string; // The evaluated CSS, formatted like resolved values. Undefined if it could not be evaluated.
+  difference?: number; // CIEDE2000 distance between actual and expected
+  error?: string; // Why the CSS could not be evaluated
+}
+
+export interface RenderVerificationReport {
+  checked: number; // Number of declarations compared
+  threshold: number;
+  mismatches: RenderMismatch[];
+  valid: boolean;
+}
+
+// Alpha differences below this are rounding, e.g. from 8-digit hex
+const ALPHA_TOLERANCE = 0.01;
+
+const difference = createDistance('ciede2000');
+
+const DEFAULT_MEDIA_QUERIES: Record<string, string> = {
+  light: '(prefers-color-scheme: light)',
+  dark: '(prefers-color-scheme: dark)',
+  'high-contrast': '(prefers-contrast: more)',
+};
+
 /**
  * Handles the rendering of color definitions into various output formats like CSS variables or JSON.
  * It supports custom function renderers for different formats.
  */
 export class ColorRenderer {
-  readonly #router: ColorRouter;
+  readonly #router: ColorRouterView;
   #format: RenderFormat;
   readonly #functionRenderers = new Map<RenderFormat, Map<string, FunctionRenderer>>();
 
@@ -36,7 +105,7 @@ export class ColorRenderer {
    * @param router An instance of ColorRouter to resolve color values.
    * @param format The initial rendering format. Defaults to 'css-variables'.
    */
-  constructor(router: ColorRouter, format: RenderFormat = 'css-variables') {
+  constructor(router: ColorRouterView, format: RenderFormat = 'css-variables') {
     this.#router = router;
     this.#format = format === ('css' as any) ? 'css-variables' : format; // Treat 'css' as 'css-variables'
     this.#registerBuiltinRenderers();
@@ -66,6 +135,19 @@ export class ColorRenderer {
       { name: 'lighten', renderers: lightenRenderers },
       { name: 'darken', renderers: darkenRenderers },
       { name: 'furthestFrom', renderers: furthestFromRenderers },
+      { name: 'simulateCVD', renderers: simulateCVDRenderers },
+      { name: 'toGamut', renderers: toGamutRenderers },
+      { name: 'scaleStep', renderers: scaleStepRenderers },
+      { name: 'complement', renderers: complementRenderers },
+      { name: 'triad', renderers: triadRenderers },
+      { name: 'analogous', renderers: analogousRenderers },
+      { name: 'splitComplement', renderers: splitComplementRenderers },
+      { name: 'tetrad', renderers: tetradRenderers },
+      { name: 'saturate', renderers: saturateRenderers },
+      { name: 'desaturate', renderers: desaturateRenderers },
+      { name: 'tint', renderers: tintRenderers },
+      { name: 'shade', renderers: shadeRenderers },
+      { name: 'fade', renderers: fadeRenderers },
     ];
 
     for (const { name, renderers } of rendererSets) {
@@ -77,31 +159,53 @@ export class ColorRenderer {
   }
 
   /**
-   * Renders a single color definition based on its type (reference, function, or direct value).
+   * Renders a single color definition based on its type (reference, function, per-mode or direct value).
    * @param definition The color definition to render.
    * @param key The key of the color being rendered (used for resolving if direct rendering fails).
+   * @param mode The theme mode to render in. Defaults to the router's active mode.
    * @returns The string representation of the rendered color value.
    */
-  #renderValue(definition: ColorDefinition, key: string): string {
-    if (definition instanceof ColorReference) {
-      return this.#renderReference(definition.key);
+  #renderValue(definition: ColorDefinition, key: string, mode?: string): string {
+    if (definition instanceof ColorModes) {
+      const defaultMode = this.#router.getModes(key.split('.')[0])[0];
+      const selectedMode = mode ?? this.#router.activeMode;
+      const selected = selectedMode !== undefined ? definition.values[selectedMode] : undefined;
+      return this.#renderValue(selected ?? definition.values[defaultMode], key, mode);
+    } else if (definition instanceof ColorReference) {
+      return this.#renderReference(definition.key, mode);
     } else if (definition instanceof ColorFunction) {
-      return this.#renderFunction(definition, key);
+      return this.#renderFunction(definition, key, mode);
+    } else if (this.#format === 'css-variables') {
+      return this.#renderLiteral(key, mode);
     } else {
-      return this.#router.resolve(key);
+      return this.#router.resolve(key, { mode });
     }
   }
 
+  /**
+   * Renders a literal color as a CSS value. A color outside the output gamut keeps its own color space:
+   * color functions compute from the unclipped color, so the mixes and relative colors depending on it in CSS
+   * have to start from the same value. The browser clips the literal itself.
+   */
+  #renderLiteral(key: string, mode?: string): string {
+    const resolved = this.#router.resolve(key, { mode });
+    const gamut = gamutOf(this.#router.outputFormat.space);
+    const unclipped = parse(this.#router.resolveUnclipped(key, { mode }));
+    if (!gamut || !unclipped || isInGamut(unclipped, gamut)) return resolved;
+    return formatCss(unclipped);
+  }
+
   /**
    * Renders a color reference (e.g., another color key) in the current format.
    * @param refKey The key of the color being referenced.
+   * @param mode The theme mode to resolve in when the reference cannot be rendered directly.
    * @returns The string representation of the color reference.
    */
-  #renderReference(refKey: string): string {
+  #renderReference(refKey: string, mode?: string): string {
     if (this.#format === 'css-variables') {
       return `var(--${refKey.replace(/\./g, '-')})`;
     } else {
-      return this.#router.resolve(refKey);
+      return this.#router.resolve(refKey, { mode });
     }
   }
 
@@ -110,12 +214,25 @@ export class ColorRenderer {
    * If no specific renderer is found, it resolves the color function to its final value.
    * @param colorFunction The ColorFunction instance to render.
    * @param key The key of the color being rendered (used for resolving if rendering fails).
+   * @param mode The theme mode to resolve in when the function cannot be rendered directly.
    * @returns The string representation of the rendered color function or its resolved value.
    */
-  #renderFunction(colorFunction: ColorFunction, key: string): string {
+  #renderFunction(colorFunction: ColorFunction, key: string, mode?: string): string {
+    const rendered = this.#renderFunctionCall(colorFunction, mode);
+    return rendered === '' ? this.#router.resolve(key, { mode }) : rendered;
+  }
+
+  /**
+   * Renders a ColorFunction call, including function calls nested in its arguments.
+   * Nested calls without a format-specific renderer are replaced by their computed value.
+   * @param colorFunction The ColorFunction instance to render.
+   * @param mode The theme mode nested calls without a renderer are computed in.
+   * @returns The rendered call, or an empty string if the function has no renderer for the current format.
+   */
+  #renderFunctionCall(colorFunction: ColorFunction, mode?: string): string {
     const formatRenderers = this.#functionRenderers.get(this.#format);
     if (!formatRenderers) {
-      return this.#router.resolve(key);
+      return '';
     }
 
     const functionName =
@@ -123,62 +240,269 @@ export class ColorRenderer {
 
     const renderer = formatRenderers.get(functionName);
     if (!renderer) {
-      return this.#router.resolve(key);
+      return '';
     }
 
     try {
       const renderedArgs = colorFunction.args.map((arg) => {
+        if (arg instanceof ColorFunction) {
+          return this.#renderFunctionCall(arg, mode) || this.#router.evaluateFunction(arg, { mode });
+        }
         if (typeof arg === 'string' && arg.includes('.') && this.#router.has(arg)) {
           return this.#renderReference(arg);
         }
         return arg;
       });
 
-      const result = renderer(renderedArgs);
+      return renderer(renderedArgs);
+    } catch (e) {
+      console.warn(`Failed to render function ${functionName}:`, e);
+      return '';
+    }
+  }
+
+  /**
+   * Places a value into a nested object following the segments of a color key.
+   * When a key is both a color and the parent of deeper keys, its own value is stored under `$value`.
+   * @param target The object to write into.
+   * @param path The key segments, e.g. `['brand', 'button', 'hover']`.
+   * @param value The value to store at the end of the path, either a color or a `$value` object with metadata.
+   */
+  #setNested(target: Record<string, any>, path: string[], value: string | Record<string, any>): void {
+    let node = target;
+    for (const segment of path.slice(0, -1)) {
+      if (typeof node[segment] === 'string') node[segment] = { $value: node[segment] };
+      node[segment] ??= {};
+      node = node[segment];
+    }
+
+    const leaf = path[path.length - 1];
+    if (node[leaf] && typeof node[leaf] === 'object') {
+      Object.assign(node[leaf], typeof value === 'string' ? { $value: value } : value);
+    } else {
+      node[leaf] = value;
+    }
+  }
+
+  /**
+   * Renders a key's resolved value for JSON, wrapped with `$description`, `$tags` and `$deprecated` if it has metadata.
+   * @returns The value (the fallback's if the key used it), or undefined if the key does not resolve.
+   */
+  #renderJsonValue(key: string): string | Record<string, any> | undefined {
+    const { value } = this.#router.resolveSafe(key);
+    if (value === undefined) return undefined;
+    const metadata = this.#router.getMetadata(key);
+    if (!metadata) return value;
+    return {
+      $value: value,
+      ...(metadata.description !== undefined ? { $description: metadata.description } : {}),
+      ...(metadata.tags?.length ? { $tags: metadata.tags } : {}),
+      ...(metadata.deprecated ? { $deprecated: metadata.deprecated } : {}),
+    };
+  }
+
+  /**
+   * Renders a CSS comment describing a key, or an empty string if it has no description or deprecation.
+   */
+  #renderComment(key: string): string {
+    const metadata = this.#router.getMetadata(key);
+    const notes: string[] = [];
+    if (metadata?.description) notes.push(metadata.description);
+    if (metadata?.deprecated) {
+      const { since, replacement } = metadata.deprecated;
+      let note = since ? `Deprecated since ${since}` : 'Deprecated';
+      if (replacement) note += `, use --${replacement.replace(/\./g, '-')}`;
+      notes.push(`${note}.`);
+    }
+    return notes.length > 0 ? `  /* ${notes.join(' ').replace(/\*\//g, '* /')} */\n` : '';
+  }
+
+  /**
+   * Renders the declarations of one CSS block. Keys that do not resolve are written as comments instead.
+   * @param keys The keys to declare.
+   * @param mode The theme mode to render in, or undefined for the router's active mode.
+   * @param withComments Whether to precede declarations with comments from the keys' metadata.
+   */
+  #renderDeclarations(keys: string[], mode?: string, withComments = false): string {
+    let output = '';
+    for (const key of keys) {
+      if (withComments) output += this.#renderComment(key);
+      const property = `--${key.replace(/\./g, '-')}`;
+      const { value, error } = this.#renderDeclarationValue(key, mode);
+      if (value === undefined) {
+        output += `  /* ${property} does not resolve: ${error?.message.replace(/\*\//g, '* /')} */\n`;
+      } else {
+        output += `  ${property}: ${value};\n`;
+      }
+    }
+    return output;
+  }
 
-      if (result === '') {
-        return this.#router.resolve(key);
+  /**
+   * Renders the CSS value of a key. A key whose definition failed is rendered from its fallback, so the output
+   * holds the value the router resolves rather than an expression the browser cannot compute.
+   * @returns The rendered value, or the error if the key resolves to nothing.
+   */
+  #renderDeclarationValue(key: string, mode?: string): { value?: string; error?: Error } {
+    const { value, error, usedFallback } = this.#router.resolveSafe(key, { mode });
+    if (value === undefined) return { error };
+    const definition = usedFallback ? this.#router.getFallback(key)! : this.#router.getDefinitionForKey(key);
+    return { value: this.#renderValue(definition, key, mode) };
+  }
+
+  /**
+   * Renders one CSS block per theme mode, holding the per-mode keys and every key depending on them,
+   * since their values may change with the mode as well.
+   * @param keys All keys being rendered.
+   * @param options How each mode is selected.
+   * @returns The blocks, each preceded by a blank line, or an empty string if no palette declares modes.
+   */
+  #renderModeBlocks(keys: string[], options: ModeRenderOptions): string {
+    const modalKeys = this.#getModalKeys(keys);
+    if (modalKeys.length === 0) return '';
+
+    const strategy = options.strategy ?? 'selector';
+    let output = '';
+    for (const mode of this.#router.getModes()) {
+      const declarations = this.#renderDeclarations(modalKeys, mode);
+      if (strategy === 'selector') {
+        const selector = options.conditions?.[mode] ?? `:root[data-mode="${mode}"]`;
+        output += `\n\n${selector} {\n${declarations}}`;
+        continue;
       }
 
-      return result;
-    } catch (e) {
-      console.warn(`Failed to render function ${functionName}:`, e);
-      return this.#router.resolve(key);
+      const query = options.conditions?.[mode] ?? DEFAULT_MEDIA_QUERIES[mode];
+      if (!query) throw new PaletteError(`No media query for mode "${mode}". Pass one in conditions.`);
+      const indented = declarations.replace(/^/gm, '  ').replace(/ +$/, '');
+      output += `\n\n@media ${query} {\n  :root {\n${indented}  }\n}`;
     }
+    return output;
   }
 
   /**
-   * Renders all defined colors in the current format.
-   * For 'json', it resolves all colors to their final string values.
-   * For 'css-variables', it attempts to render references and functions directly.
-   * @returns A string containing all rendered color definitions in the selected format.
+   * Gets the per-mode keys and every key depending on them.
    */
-  render(): string {
+  #getModalKeys(keys: string[]): string[] {
+    const graph = this.#router.getDependencyGraph();
+    const modal = new Set<string>();
+    for (const key of keys) {
+      if (this.#router.getDefinitionType(key) === 'modes') {
+        graph.bfsTraversal(key, false).forEach((dependent) => modal.add(dependent));
+      }
+    }
+    return keys.filter((key) => modal.has(key));
+  }
+
+  /**
+   * Gets every key of every palette, including inherited keys, sorted.
+   */
+  #getAllKeys(): string[] {
     const allKeys = new Set<string>();
     this.#router.getAllPalettes().forEach(({ name }) => {
       this.#router.getAllKeysForPalette(name).forEach((k) => allKeys.add(k));
     });
-    const keys = Array.from(allKeys).sort();
+    return Array.from(allKeys).sort();
+  }
+
+  /**
+   * Renders all defined colors in the current format.
+   * For 'json', it resolves all colors to their final string values (in the active theme mode), nested by palette
+   * and key segments, with metadata as `$description`, `$tags` and `$deprecated`. For 'css-variables', it attempts
+   * to render references and functions directly, writes metadata as comments, and adds a block per theme mode
+   * unless `options.modes` is false. Keys whose definition fails are rendered from their fallback; keys without one
+   * are left out of the JSON and written as comments in CSS.
+   * @param options Rendering options.
+   * @returns A string containing all rendered color definitions in the selected format.
+   * @throws {PaletteError} If the media strategy is used for a mode without a known or given media query.
+   */
+  render(options: RenderOptions = {}): string {
+    const keys = this.#getAllKeys();
 
     if (this.#format === 'json') {
-      const resolvedJson: Record<string, string> = {};
+      const resolvedJson: Record<string, any> = {};
       for (const key of keys) {
-        resolvedJson[key] = this.#router.resolve(key);
+        const value = this.#renderJsonValue(key);
+        if (value !== undefined) this.#setNested(resolvedJson, key.split('.'), value);
       }
       return JSON.stringify(resolvedJson, null, 2);
     }
 
-    let output = '';
-    for (const key of keys) {
-      const definition = this.#router.getDefinitionForKey(key);
-      const value = this.#renderValue(definition, key);
+    const modeBlocks = options.modes === false ? '' : this.#renderModeBlocks(keys, options.modes ?? {});
+    return `:root {\n${this.#renderDeclarations(keys, undefined, true)}}${modeBlocks}`;
+  }
+
+  /**
+   * Checks that the 'css-variables' output means the same colors as the router resolves, without a browser.
+   * Every declaration is evaluated with the custom properties of its block (the `:root` block, or the `:root`
+   * block overlaid with a theme mode's block) and compared with `router.resolve()` in that mode.
+   * Keys that do not resolve are skipped.
+   * @param options The distance threshold.
+   * @returns The declarations whose evaluated value differs, or that could not be evaluated.
+   * @throws {PaletteError} If the renderer's format is not 'css-variables'.
+   */
+  verifyRender(options: RenderVerificationOptions = {}): RenderVerificationReport {
+    if (this.#format !== 'css-variables') {
+      throw new PaletteError(`verifyRender checks CSS output; the renderer's format is '${this.#format}'.`);
+    }
+    const threshold = options.threshold ?? 1;
+    const keys = this.#getAllKeys();
+    const mismatches: RenderMismatch[] = [];
+    let checked = 0;
+
+    const declare = (keysToRender: string[], mode?: string): Record<string, string> => {
+      const declarations: Record<string, string> = {};
+      for (const key of keysToRender) {
+        const { value } = this.#renderDeclarationValue(key, mode);
+        if (value !== undefined) declarations[`--${key.replace(/\./g, '-')}`] = value;
+      }
+      return declarations;
+    };
+    const check = (keysToCheck: string[], variables: Record<string, string>, mode?: string): void => {
+      const evaluate = createCssEvaluator(variables);
+      for (const key of keysToCheck) {
+        const css = variables[`--${key.replace(/\./g, '-')}`];
+        if (css === undefined) continue;
+        checked++;
+        const mismatch = this.#compareRendered(key, css, evaluate, mode, threshold);
+        if (mismatch) mismatches.push(mismatch);
+      }
+    };
 
-      if (this.#format === 'css-variables') {
-        output += `  --${key.replace(/\./g, '-')}: ${value};\n`;
+    const rootDeclarations = declare(keys);
+    check(keys, rootDeclarations);
+    const modalKeys = this.#getModalKeys(keys);
+    if (modalKeys.length > 0) {
+      for (const mode of this.#router.getModes()) {
+        check(modalKeys, { ...rootDeclarations, ...declare(modalKeys, mode) }, mode);
       }
     }
+    return { checked, threshold, mismatches, valid: mismatches.length === 0 };
+  }
+
+  /**
+   * Evaluates one rendered declaration and compares it with the key's resolved value.
+   * @returns The mismatch, or undefined if the values match.
+   */
+  #compareRendered(
+    key: string,
+    css: string,
+    evaluate: (expression: string) => Color,
+    mode: string | undefined,
+    threshold: number,
+  ): RenderMismatch | undefined {
+    const expected = this.#router.resolve(key, { mode });
+    let actual: string;
+    try {
+      actual = formatColor(evaluate(css), this.#router.outputFormat);
+    } catch (e) {
+      return { key, mode, css, expected, error: (e as Error).message };
+    }
 
-    return this.#format === 'css-variables' ? `:root {\n${output}}` : output;
+    const [actualColor, expectedColor] = [parse(actual)!, parse(expected)!];
+    const distance = difference(actualColor, expectedColor);
+    const alphaDifference = Math.abs((actualColor.alpha ?? 1) - (expectedColor.alpha ?? 1));
+    if (distance <= threshold && alphaDifference <= ALPHA_TOLERANCE) return undefined;
+    return { key, mode, css, expected, actual, difference: distance };
   }
 
   /**
@@ -1,5 +1,5 @@
 import { ColorRenderer, RenderFormat } from './ColorRenderer';
-import { ColorRouter } from '../router';
+import type { ColorRouterView } from '../types';
 import { tableView, createTableItemFromPalette, TableItem, TableViewOptions } from './TableViewRenderer';
 
 export interface SVGRenderOptions extends TableViewOptions {
@@ -28,9 +28,9 @@ export interface Connection {
  */
 export class SVGRenderer extends ColorRenderer {
   #options: SVGRenderOptions;
-  #router: ColorRouter;
+  #router: ColorRouterView;
 
-  constructor(router: ColorRouter, options: SVGRenderOptions = {}) {
+  constructor(router: ColorRouterView, options: SVGRenderOptions = {}) {
     super(router, 'json' as RenderFormat);
     this.#router = router;
     this.#options = {
@@ -48,7 +48,7 @@ export class SVGRenderer extends ColorRenderer {
     };
   }
 
-  private get router(): ColorRouter {
+  private get router(): ColorRouterView {
     return this.#router;
   }
 
@@ -135,7 +135,7 @@ export class SVGRenderer extends ColorRenderer {
     return allConnectionPoints;
   }
 
-  #findConnections(router: ColorRouter, connectionPoints: Record<string, ConnectionPoint>): Connection[] {
+  #findConnections(router: ColorRouterView, connectionPoints: Record<string, ConnectionPoint>): Connection[] {
     const connections: Connection[] = [];
     const processedConnections = new Set<string>();
 
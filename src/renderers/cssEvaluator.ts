@@ -0,0 +1,425 @@
+import { parse, converter, fixupHueShorter, fixupHueLonger, fixupHueIncreasing, fixupHueDecreasing } from 'culori';
+import type { Color } from 'culori';
+import { PaletteError } from '../router/errors';
+import { interpolatePremultiplied } from '../router/colorMixing';
+
+type Token =
+  | { type: 'number'; value: number; unit: string }
+  | { type: 'ident'; value: string }
+  | { type: 'hash'; value: string }
+  | { type: 'function'; name: string; start: number }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'comma' }
+  | { type: 'delim'; value: string };
+
+type Node =
+  | { type: 'number'; value: number; unit: string }
+  | { type: 'ident'; value: string }
+  | { type: 'hash'; value: string }
+  | { type: 'delim'; value: string }
+  | { type: 'comma' }
+  | { type: 'group'; items: Node[] }
+  | { type: 'call'; name: string; args: Node[]; text: string };
+
+interface ChannelSpec {
+  key: string; // Channel in the culori color
+  scale: number; // CSS value = culori value × scale, e.g. 255 for rgb()
+  range: number; // What 100% stands for, in CSS units
+  hue?: boolean;
+}
+
+interface ColorSyntax {
+  mode: string;
+  channels: [ChannelSpec, ChannelSpec, ChannelSpec];
+}
+
+const channel = (key: string, scale: number, range: number): ChannelSpec => ({ key, scale, range });
+const hue: ChannelSpec = { key: 'h', scale: 1, range: 360, hue: true };
+const rgbChannels = (scale: number): ColorSyntax['channels'] => [
+  channel('r', scale, scale),
+  channel('g', scale, scale),
+  channel('b', scale, scale),
+];
+const xyzChannels: ColorSyntax['channels'] = [channel('x', 1, 1), channel('y', 1, 1), channel('z', 1, 1)];
+
+/** Color functions with their own name, e.g. `oklch(...)`. */
+const COLOR_FUNCTIONS: Record<string, ColorSyntax> = {
+  rgb: { mode: 'rgb', channels: rgbChannels(255) },
+  rgba: { mode: 'rgb', channels: rgbChannels(255) },
+  hsl: { mode: 'hsl', channels: [hue, channel('s', 100, 100), channel('l', 100, 100)] },
+  hsla: { mode: 'hsl', channels: [hue, channel('s', 100, 100), channel('l', 100, 100)] },
+  hwb: { mode: 'hwb', channels: [hue, channel('w', 100, 100), channel('b', 100, 100)] },
+  lab: { mode: 'lab', channels: [channel('l', 1, 100), channel('a', 1, 125), channel('b', 1, 125)] },
+  lch: { mode: 'lch', channels: [channel('l', 1, 100), channel('c', 1, 150), hue] },
+  oklab: { mode: 'oklab', channels: [channel('l', 1, 1), channel('a', 1, 0.4), channel('b', 1, 0.4)] },
+  oklch: { mode: 'oklch', channels: [channel('l', 1, 1), channel('c', 1, 0.4), hue] },
+};
+
+/** Predefined spaces of `color(...)`, e.g. `color(display-p3 1 0 0)`. */
+const PREDEFINED_SPACES: Record<string, ColorSyntax> = {
+  srgb: { mode: 'rgb', channels: rgbChannels(1) },
+  'srgb-linear': { mode: 'lrgb', channels: rgbChannels(1) },
+  'display-p3': { mode: 'p3', channels: rgbChannels(1) },
+  'a98-rgb': { mode: 'a98', channels: rgbChannels(1) },
+  'prophoto-rgb': { mode: 'prophoto', channels: rgbChannels(1) },
+  rec2020: { mode: 'rec2020', channels: rgbChannels(1) },
+  xyz: { mode: 'xyz65', channels: xyzChannels },
+  'xyz-d65': { mode: 'xyz65', channels: xyzChannels },
+  'xyz-d50': { mode: 'xyz50', channels: xyzChannels },
+};
+
+/** Interpolation spaces of `color-mix()`. */
+const MIX_SPACES: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(PREDEFINED_SPACES).map(([name, { mode }]) => [name, mode])),
+  hsl: 'hsl',
+  hwb: 'hwb',
+  lab: 'lab',
+  lch: 'lch',
+  oklab: 'oklab',
+  oklch: 'oklch',
+};
+
+const HUE_FIXUPS: Record<string, (hues: number[]) => number[]> = {
+  shorter: fixupHueShorter,
+  longer: fixupHueLonger,
+  increasing: fixupHueIncreasing,
+  decreasing: fixupHueDecreasing,
+};
+
+const ANGLE_UNITS: Record<string, number> = { deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 };
+
+const alphaChannel: ChannelSpec = { key: 'alpha', scale: 1, range: 1 };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const numberPattern = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i;
+  const identPattern = /^-?-?[a-z_][\w-]*|^--[\w-]*/i;
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (numberPattern.test(rest)) {
+      const number = rest.match(numberPattern)![0];
+      const unit = rest.slice(number.length).match(/^(%|[a-z]+)/i)?.[0] ?? '';
+      tokens.push({ type: 'number', value: parseFloat(number), unit: unit.toLowerCase() });
+      i += number.length + unit.length;
+    } else if (char === '#') {
+      const hex = rest.match(/^#([\da-f]+)/i)?.[1];
+      if (!hex) throw new PaletteError(`Invalid hex color at column ${i + 1} of "${source}".`);
+      tokens.push({ type: 'hash', value: hex });
+      i += hex.length + 1;
+    } else if (identPattern.test(rest)) {
+      const ident = rest.match(identPattern)![0];
+      if (source[i + ident.length] === '(') {
+        tokens.push({ type: 'function', name: ident.toLowerCase(), start: i });
+        i += ident.length + 1;
+      } else {
+        tokens.push({ type: 'ident', value: ident.startsWith('--') ? ident : ident.toLowerCase() });
+        i += ident.length;
+      }
+    } else if (char === '(' || char === ')' || char === ',') {
+      tokens.push(char === '(' ? { type: 'open' } : char === ')' ? { type: 'close' } : { type: 'comma' });
+      i++;
+    } else if ('+-*/'.includes(char)) {
+      tokens.push({ type: 'delim', value: char });
+      i++;
+    } else {
+      throw new PaletteError(`Unexpected "${char}" at column ${i + 1} of "${source}".`);
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Groups tokens into function calls and parenthesized groups.
+ */
+function buildTree(source: string): Node[] {
+  const tokens = tokenize(source);
+  let position = 0;
+  // Offsets of closing parentheses, so calls can keep their source text for culori
+  const closings = [...source.matchAll(/\)/g)].map((match) => match.index!);
+  let closingIndex = 0;
+
+  const parseList = (nested: boolean): Node[] => {
+    const nodes: Node[] = [];
+    while (position < tokens.length) {
+      const token = tokens[position++];
+      if (token.type === 'close') {
+        if (!nested) throw new PaletteError(`Unbalanced ")" in "${source}".`);
+        closingIndex++;
+        return nodes;
+      }
+      if (token.type === 'function') {
+        const args = parseList(true);
+        const end = closings[closingIndex - 1];
+        nodes.push({ type: 'call', name: token.name, args, text: source.slice(token.start, end + 1) });
+      } else if (token.type === 'open') {
+        nodes.push({ type: 'group', items: parseList(true) });
+      } else {
+        nodes.push(token);
+      }
+    }
+    if (nested) throw new PaletteError(`Missing ")" in "${source}".`);
+    return nodes;
+  };
+  return parseList(false);
+}
+
+function splitBy(nodes: Node[], isSeparator: (node: Node) => boolean): Node[][] {
+  const parts: Node[][] = [[]];
+  for (const node of nodes) {
+    if (isSeparator(node)) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1].push(node);
+    }
+  }
+  return parts;
+}
+
+const isComma = (node: Node) => node.type === 'comma';
+const isSlash = (node: Node) => node.type === 'delim' && node.value === '/';
+
+/**
+ * Evaluates CSS color expressions against a set of custom properties.
+ */
+class CssColorEvaluator {
+  readonly #variables: Record<string, string>;
+  readonly #cache = new Map<string, Color>();
+  readonly #evaluating = new Set<string>();
+
+  constructor(variables: Record<string, string>) {
+    this.#variables = variables;
+  }
+
+  evaluate(expression: string): Color {
+    const nodes = buildTree(expression);
+    return this.#color(nodes, expression);
+  }
+
+  #color(nodes: Node[], source: string): Color {
+    if (nodes.length !== 1) throw new PaletteError(`Expected a single color in "${source}".`);
+    const [node] = nodes;
+
+    if (node.type === 'hash' || node.type === 'ident') {
+      const parsed = parse(node.type === 'hash' ? `#${node.value}` : node.value);
+      if (!parsed) throw new PaletteError(`Unknown color "${node.value}".`);
+      return parsed;
+    }
+    if (node.type !== 'call') throw new PaletteError(`Expected a color in "${source}".`);
+
+    if (node.name === 'var') return this.#variable(node.args, node.text);
+    if (node.name === 'color-mix') return this.#mix(node.args, node.text);
+    const isRelative = node.args[0]?.type === 'ident' && node.args[0].value === 'from';
+    if (!isRelative) {
+      const parsed = parse(node.text);
+      if (parsed) return parsed;
+    }
+    return this.#colorFunction(node.name, node.args, node.text);
+  }
+
+  #variable(args: Node[], source: string): Color {
+    const [nameNodes, ...fallbackParts] = splitBy(args, isComma);
+    const name = nameNodes[0]?.type === 'ident' ? nameNodes[0].value : undefined;
+    if (!name?.startsWith('--') || nameNodes.length !== 1) throw new PaletteError(`Invalid ${source}.`);
+
+    const value = this.#variables[name];
+    if (value === undefined) {
+      if (fallbackParts.length === 0) throw new PaletteError(`Custom property ${name} is not defined.`);
+      return this.#color(fallbackParts.flat(), source);
+    }
+    const cached = this.#cache.get(name);
+    if (cached) return cached;
+    if (this.#evaluating.has(name)) throw new PaletteError(`Custom property ${name} references itself.`);
+
+    this.#evaluating.add(name);
+    try {
+      const color = this.evaluate(value);
+      this.#cache.set(name, color);
+      return color;
+    } finally {
+      this.#evaluating.delete(name);
+    }
+  }
+
+  /**
+   * Evaluates `color-mix(in <space> [<method> hue], <color> [<percentage>], <color> [<percentage>])`,
+   * normalizing the percentages and interpolating with premultiplied alpha as CSS Color 5 specifies.
+   */
+  #mix(args: Node[], source: string): Color {
+    const parts = splitBy(args, isComma);
+    if (parts.length !== 3) throw new PaletteError(`${source} needs an interpolation space and two colors.`);
+
+    const [inKeyword, spaceNode, methodNode, hueKeyword] = parts[0];
+    const space = spaceNode?.type === 'ident' ? spaceNode.value : '';
+    const mode = MIX_SPACES[space];
+    if (inKeyword?.type !== 'ident' || inKeyword.value !== 'in' || !mode) {
+      throw new PaletteError(`Unsupported interpolation space in ${source}.`);
+    }
+    const hueMethod = methodNode?.type === 'ident' ? methodNode.value : 'shorter';
+    if (!HUE_FIXUPS[hueMethod] || (methodNode && (hueKeyword?.type !== 'ident' || hueKeyword.value !== 'hue'))) {
+      throw new PaletteError(`Invalid hue interpolation method in ${source}.`);
+    }
+
+    const [first, second] = [parts[1], parts[2]].map((part) => {
+      const percentages = part.filter((node) => node.type === 'number' && node.unit === '%');
+      const colorNodes = part.filter((node) => !percentages.includes(node));
+      const percentage = percentages[0]?.type === 'number' ? percentages[0].value : undefined;
+      return { color: this.#color(colorNodes, source), percentage };
+    });
+
+    const p1 = first.percentage ?? (second.percentage !== undefined ? 100 - second.percentage : 50);
+    const p2 = second.percentage ?? 100 - p1;
+    const sum = p1 + p2;
+    if (sum <= 0) throw new PaletteError(`The percentages in ${source} add up to zero.`);
+
+    const mixed = interpolatePremultiplied(first.color, second.color, mode, p2 / sum, HUE_FIXUPS[hueMethod]);
+    return sum < 100 ? { ...mixed, alpha: (mixed.alpha ?? 1) * (sum / 100) } : mixed;
+  }
+
+  /**
+   * Evaluates absolute and relative color functions, such as `oklch(from var(--x) calc(l + 0.1) c h)`
+   * and `color(from var(--x) display-p3 r g b / 0.5)`.
+   */
+  #colorFunction(name: string, args: Node[], source: string): Color {
+    let rest = args;
+    let origin: Color | undefined;
+    if (rest[0]?.type === 'ident' && rest[0].value === 'from') {
+      origin = this.#color([rest[1]], source);
+      rest = rest.slice(2);
+    }
+
+    let syntax = COLOR_FUNCTIONS[name];
+    if (name === 'color') {
+      const space = rest[0]?.type === 'ident' ? rest[0].value : '';
+      syntax = PREDEFINED_SPACES[space];
+      if (!syntax) throw new PaletteError(`Unsupported color space "${space}" in ${source}.`);
+      rest = rest.slice(1);
+    }
+    if (!syntax) throw new PaletteError(`Unsupported color function ${name}() in ${source}.`);
+
+    const [channelNodes, alphaNodes = []] = splitBy(
+      rest.filter((node) => !isComma(node)),
+      isSlash,
+    );
+    if (channelNodes.length !== 3 || alphaNodes.length > 1) {
+      throw new PaletteError(`Expected three channels and an optional alpha in ${source}.`);
+    }
+
+    const keywords: Record<string, number> = {};
+    if (origin) {
+      const converted = converter(syntax.mode as any)(origin) as Record<string, any>;
+      // Missing channels of the origin, such as the hue of a gray, count as 0
+      for (const spec of syntax.channels) keywords[spec.key] = (converted[spec.key] ?? 0) * spec.scale;
+      keywords.alpha = origin.alpha ?? 1;
+    }
+
+    const color: Record<string, any> = { mode: syntax.mode };
+    syntax.channels.forEach((spec, index) => {
+      const value = this.#channel(channelNodes[index], spec, keywords, source);
+      if (value !== undefined) color[spec.key] = value / spec.scale;
+    });
+    const alpha = alphaNodes.length > 0 ? this.#channel(alphaNodes[0], alphaChannel, keywords, source) : keywords.alpha;
+    if (alpha !== undefined && alpha < 1) color.alpha = Math.max(0, alpha);
+    return color as Color;
+  }
+
+  #channel(node: Node, spec: ChannelSpec, keywords: Record<string, number>, source: string): number | undefined {
+    if (node.type === 'ident' && node.value === 'none') return undefined;
+    return this.#math(node, spec, keywords, source);
+  }
+
+  /**
+   * Evaluates a channel value in CSS units: a number, percentage, angle, channel keyword or math function.
+   */
+  #math(node: Node, spec: ChannelSpec, keywords: Record<string, number>, source: string): number {
+    switch (node.type) {
+      case 'number':
+        if (node.unit === '') return node.value;
+        if (node.unit === '%') return (node.value / 100) * spec.range;
+        if (spec.hue && ANGLE_UNITS[node.unit]) return node.value * ANGLE_UNITS[node.unit];
+        throw new PaletteError(`Unexpected unit "${node.unit}" in ${source}.`);
+      case 'ident':
+        if (node.value in keywords) return keywords[node.value];
+        if (node.value === 'pi') return Math.PI;
+        if (node.value === 'e') return Math.E;
+        throw new PaletteError(`Unknown keyword "${node.value}" in ${source}.`);
+      case 'group':
+        return this.#expression(node.items, spec, keywords, source);
+      case 'call': {
+        const values = () => splitBy(node.args, isComma).map((part) => this.#expression(part, spec, keywords, source));
+        if (node.name === 'calc') return this.#expression(node.args, spec, keywords, source);
+        if (node.name === 'min') return Math.min(...values());
+        if (node.name === 'max') return Math.max(...values());
+        if (node.name === 'abs') return Math.abs(this.#expression(node.args, spec, keywords, source));
+        if (node.name === 'clamp') {
+          const [min, value, max] = values();
+          return Math.max(min, Math.min(value, max));
+        }
+        throw new PaletteError(`Unsupported function ${node.name}() in ${source}.`);
+      }
+      default:
+        throw new PaletteError(`Unexpected token in ${source}.`);
+    }
+  }
+
+  /**
+   * Evaluates `+`, `-`, `*` and `/` with the usual precedence.
+   */
+  #expression(nodes: Node[], spec: ChannelSpec, keywords: Record<string, number>, source: string): number {
+    let position = 0;
+    const operand = (): number => {
+      const node = nodes[position++];
+      if (!node) throw new PaletteError(`Incomplete expression in ${source}.`);
+      return this.#math(node, spec, keywords, source);
+    };
+    const operator = (operators: string): string | undefined => {
+      const node = nodes[position];
+      if (node?.type === 'delim' && operators.includes(node.value)) {
+        position++;
+        return node.value;
+      }
+      return undefined;
+    };
+    const term = (): number => {
+      let value = operand();
+      for (let op = operator('*/'); op; op = operator('*/')) {
+        value = op === '*' ? value * operand() : value / operand();
+      }
+      return value;
+    };
+
+    let value = term();
+    for (let op = operator('+-'); op; op = operator('+-')) {
+      value = op === '+' ? value + term() : value - term();
+    }
+    if (position !== nodes.length) throw new PaletteError(`Unexpected token in ${source}.`);
+    return value;
+  }
+}
+
+/**
+ * Evaluates a CSS color value the way a browser would, for the subset of CSS Color 4/5 the renderers produce:
+ * color literals, `var()`, `color-mix()`, relative color syntax (`oklch(from ...)`, `color(from ...)`) and
+ * `calc()`, `min()`, `max()`, `clamp()` and `abs()` in channels.
+ * @param expression The CSS value, e.g. `oklch(from var(--brand-primary) calc(l + 0.1) c h)`.
+ * @param variables Custom properties by name (including the `--`), holding CSS values that may use `var()` themselves.
+ * @returns The color, without gamut clipping.
+ * @throws {PaletteError} If the expression is not valid or uses unsupported syntax, or a custom property is missing.
+ */
+export function evaluateCssColor(expression: string, variables: Record<string, string> = {}): Color {
+  return new CssColorEvaluator(variables).evaluate(expression);
+}
+
+/**
+ * Evaluates many CSS color values that share custom properties, evaluating each property once.
+ * @param variables Custom properties by name (including the `--`).
+ * @returns A function that evaluates one CSS value.
+ */
+export function createCssEvaluator(variables: Record<string, string>): (expression: string) => Color {
+  const evaluator = new CssColorEvaluator(variables);
+  return (expression) => evaluator.evaluate(expression);
+}
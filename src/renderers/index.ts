@@ -1,7 +1,16 @@
 export { ColorRenderer } from './ColorRenderer';
 export { SVGRenderer } from './SVGRenderer';
 export { tableView, createTableItemFromPalette } from './TableViewRenderer';
+export { evaluateCssColor, createCssEvaluator } from './cssEvaluator';
 
-export type { RenderFormat, FunctionRenderer } from './ColorRenderer';
+export type {
+  RenderFormat,
+  FunctionRenderer,
+  ModeRenderOptions,
+  RenderOptions,
+  RenderVerificationOptions,
+  RenderMismatch,
+  RenderVerificationReport,
+} from './ColorRenderer';
 export type { TableItem, TableBoundingRect, TableViewResult, TableViewOptions } from './TableViewRenderer';
 export type { SVGRenderOptions, ConnectionPoint, Connection } from './SVGRenderer';
@@ -0,0 +1,330 @@
+import { parse } from 'culori';
+import {
+  AuditFinding,
+  AuditOptions,
+  AuditReport,
+  AuditRule,
+  AuditSeverity,
+  ColorDefinition,
+  ColorFunction,
+  ColorModes,
+  ColorReference,
+  ColorRouterView,
+  PaletteConfig,
+} from '../types';
+import { DependencyGraph } from './DependencyGraph';
+import { splitKey } from './keys';
+import { createDistance } from '../distance';
+
+type AuditIssue = Omit<AuditFinding, 'rule' | 'severity'>;
+
+const DEFAULT_SEVERITIES: Record<AuditRule, AuditSeverity> = {
+  'unused-key': 'info',
+  'unused-palette': 'info',
+  'long-reference-chain': 'warning',
+  'duplicate-color': 'warning',
+  'inheritance-self-reference': 'warning',
+  'unparseable-function-input': 'error',
+};
+
+/** Strings that are meant as colors: hex notation or a CSS color function such as `rgb(...)`. */
+const COLOR_LITERAL = /^(#|[a-z-]+\()/i;
+/** Strings that are meant as keys, e.g. `brand.primary`. */
+const KEY_LIKE = /^[a-z_][\w-]*(\.[\w-]+)+$/i;
+
+const difference = createDistance('ciede2000');
+
+/**
+ * Checks a router's configuration for problems that do not stop it from resolving:
+ * unused keys and palettes, long reference chains, duplicate colors, references that loop back through
+ * palette inheritance, and function arguments that cannot be parsed.
+ */
+export class Auditor {
+  private definitions: Map<string, ColorDefinition>;
+  private colorRouter: ColorRouterView;
+
+  /**
+   * Creates an instance of Auditor.
+   * @param definitions The router's own (not inherited) color definitions.
+   * @param colorRouter An instance of ColorRouter.
+   */
+  constructor(definitions: Map<string, ColorDefinition>, colorRouter: ColorRouterView) {
+    this.definitions = definitions;
+    this.colorRouter = colorRouter;
+  }
+
+  /**
+   * Runs every rule that is not turned off.
+   * @param options Rule severities and thresholds.
+   * @returns The findings, ordered by rule, and the number of findings per severity.
+   */
+  public audit(options: AuditOptions = {}): AuditReport {
+    const severities = { ...DEFAULT_SEVERITIES, ...options.rules };
+    const checks: Record<AuditRule, () => AuditIssue[]> = {
+      'unused-key': () => this.findUnusedKeys(),
+      'unused-palette': () => this.findUnusedPalettes(),
+      'long-reference-chain': () => this.findLongChains(options.maxChainLength ?? 4),
+      'duplicate-color': () => this.findDuplicateColors(options.duplicateThreshold ?? 1),
+      'inheritance-self-reference': () => this.findInheritanceSelfReferences(),
+      'unparseable-function-input': () => this.findUnparseableInputs(),
+    };
+
+    const findings: AuditFinding[] = [];
+    const counts: Record<AuditSeverity, number> = { error: 0, warning: 0, info: 0 };
+    for (const rule of Object.keys(checks) as AuditRule[]) {
+      const severity = severities[rule];
+      if (severity === 'off') continue;
+      for (const issue of checks[rule]()) {
+        findings.push({ rule, severity, ...issue });
+        counts[severity]++;
+      }
+    }
+    return { findings, counts };
+  }
+
+  private get graph(): DependencyGraph {
+    return this.colorRouter.getDependencyGraph();
+  }
+
+  /**
+   * Checks whether a graph node is a key a palette inherits without overriding it.
+   * Such copies only forward their base key, so rules look through them.
+   */
+  private isInheritedCopy(node: string): boolean {
+    return !this.definitions.has(node) && !DependencyGraph.isPaletteNode(node);
+  }
+
+  /**
+   * Gets the defined keys and palette nodes that depend on a key, directly or through inherited copies of it.
+   */
+  private getUsers(key: string, visited = new Set<string>()): string[] {
+    const users: string[] = [];
+    for (const dependent of this.graph.getDependentsOf(key)) {
+      if (visited.has(dependent)) continue;
+      visited.add(dependent);
+      if (this.isInheritedCopy(dependent)) {
+        users.push(...this.getUsers(dependent, visited));
+      } else {
+        users.push(dependent);
+      }
+    }
+    return users;
+  }
+
+  private findUnusedKeys(): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+    for (const key of this.definitions.keys()) {
+      if (this.graph.getNodeDegree(key, false) > 0 && this.getUsers(key).length > 0) continue;
+      issues.push({ message: `'${key}' is not used by any other color.`, keys: [key], palette: splitKey(key)[0] });
+    }
+    return issues;
+  }
+
+  private findUnusedPalettes(): AuditIssue[] {
+    const palettes = this.colorRouter.getAllPalettes();
+    const issues: AuditIssue[] = [];
+
+    for (const { name } of palettes) {
+      if (palettes.some(({ config }) => config.extends === name)) continue;
+      // Palette-aware functions depend on the palette node, which the router's own queries leave out.
+      const isSearched = this.graph
+        .getDependentsOf(DependencyGraph.paletteNode(name))
+        .some((user) => splitKey(user)[0] !== name);
+      const isReferenced = palettes.some(
+        (other) =>
+          other.name !== name &&
+          this.colorRouter.getPaletteDependencies(other.name).some((dependency) => splitKey(dependency)[0] === name),
+      );
+      if (isSearched || isReferenced) continue;
+      issues.push({
+        message: `Palette '${name}' is not extended and no other palette references its colors.`,
+        keys: [],
+        palette: name,
+      });
+    }
+    return issues;
+  }
+
+  private findLongChains(maxChainLength: number): AuditIssue[] {
+    const chains = new Map<string, string[]>();
+    const hops = (key: string) => this.getLongestChain(key, chains, new Set()).length - 1;
+    const issues: AuditIssue[] = [];
+
+    for (const key of this.graph.getAllNodes()) {
+      if (!this.definitions.has(key) || hops(key) <= maxChainLength) continue;
+      // Report only where a chain ends; every key further down it is at least as long.
+      const users = this.getUsers(key).filter((user) => !DependencyGraph.isPaletteNode(user));
+      if (users.some((user) => hops(user) > maxChainLength)) continue;
+
+      const chain = this.getLongestChain(key, chains, new Set());
+      issues.push({
+        message: `'${key}' resolves through ${chain.length - 1} references (more than ${maxChainLength}): ${chain.join(' -> ')}.`,
+        keys: chain,
+        palette: splitKey(key)[0],
+      });
+    }
+    return issues;
+  }
+
+  /**
+   * Gets the longest chain of defined keys a node depends on, starting with the node itself.
+   * Inherited copies are skipped over and palette nodes end a chain.
+   */
+  private getLongestChain(node: string, chains: Map<string, string[]>, visiting: Set<string>): string[] {
+    const known = chains.get(node);
+    if (known) return known;
+    if (visiting.has(node)) return [];
+    visiting.add(node);
+
+    let longest: string[] = [];
+    for (const prerequisite of this.graph.getPrerequisitesFor(node)) {
+      if (DependencyGraph.isPaletteNode(prerequisite)) continue;
+      const chain = this.getLongestChain(prerequisite, chains, visiting);
+      if (chain.length > longest.length) longest = chain;
+    }
+    visiting.delete(node);
+
+    const chain = this.isInheritedCopy(node) ? longest : [node, ...longest];
+    chains.set(node, chain);
+    return chain;
+  }
+
+  private findDuplicateColors(threshold: number): AuditIssue[] {
+    const byValue = new Map<string, string[]>();
+    for (const [key, definition] of this.definitions) {
+      if (typeof definition !== 'string') continue;
+      const { value } = this.colorRouter.resolveSafe(key);
+      if (value === undefined) continue;
+      byValue.set(value, [...(byValue.get(value) ?? []), key]);
+    }
+
+    const issues: AuditIssue[] = [];
+    for (const [value, keys] of byValue) {
+      if (keys.length < 2) continue;
+      issues.push({ message: `${this.listKeys(keys)} are defined as the same color ${value}.`, keys });
+    }
+
+    const values = [...byValue.entries()]
+      .map(([value, keys]) => ({ color: parse(value), keys }))
+      .filter(({ color }) => color !== undefined);
+    for (let i = 0; i < values.length; i++) {
+      for (let j = i + 1; j < values.length; j++) {
+        const distance = difference(values[i].color!, values[j].color!);
+        if (distance >= threshold) continue;
+        const keys = [values[i].keys[0], values[j].keys[0]];
+        issues.push({
+          message: `'${keys[0]}' and '${keys[1]}' are nearly identical (CIEDE2000 distance ${distance.toFixed(2)}).`,
+          keys,
+        });
+      }
+    }
+    return issues;
+  }
+
+  private findInheritanceSelfReferences(): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+
+    for (const [key, definition] of this.definitions) {
+      const [paletteName, colorPath] = splitKey(key);
+
+      if (definition instanceof ColorReference) {
+        const [targetPalette, targetPath] = splitKey(definition.key);
+        if (targetPath === colorPath && this.getAncestors(paletteName).includes(targetPalette)) {
+          issues.push({
+            message: `'${key}' only references its inherited value '${definition.key}'. Remove the override to inherit it.`,
+            keys: [key, definition.key],
+            palette: paletteName,
+          });
+          continue;
+        }
+      }
+
+      const descendants = this.getDescendants(paletteName);
+      for (const prerequisite of this.graph.getPrerequisitesFor(key)) {
+        const targetPalette = DependencyGraph.isPaletteNode(prerequisite)
+          ? prerequisite.slice('palette:'.length)
+          : splitKey(prerequisite)[0];
+        if (!descendants.includes(targetPalette)) continue;
+        const loopsBack = splitKey(prerequisite)[1] === colorPath;
+        issues.push({
+          message:
+            `'${key}' depends on '${prerequisite}', but '${targetPalette}' extends '${paletteName}'.` +
+            (loopsBack ? ` Without its override, '${prerequisite}' would inherit a reference to itself.` : ''),
+          keys: [key, prerequisite],
+          palette: paletteName,
+        });
+      }
+    }
+    return issues;
+  }
+
+  private findUnparseableInputs(): AuditIssue[] {
+    const palettes = new Set(this.colorRouter.getAllPalettes().map(({ name }) => name));
+    const issues: AuditIssue[] = [];
+
+    const checkArg = (key: string, functionName: string, arg: unknown): void => {
+      if (arg instanceof ColorFunction) return checkFunction(key, arg);
+      if (Array.isArray(arg)) return arg.forEach((item) => checkArg(key, functionName, item));
+      if (typeof arg !== 'string' || palettes.has(arg) || this.colorRouter.has(arg)) return;
+
+      if (KEY_LIKE.test(arg) && palettes.has(splitKey(arg)[0])) {
+        issues.push({
+          message: `'${key}' passes '${arg}' to ${functionName}, but no such color is defined, so it is read as an unparseable color.`,
+          keys: [key, arg],
+          palette: splitKey(key)[0],
+        });
+      } else if (COLOR_LITERAL.test(arg) && !parse(arg)) {
+        issues.push({
+          message: `'${key}' passes "${arg}" to ${functionName}, which cannot parse it. Depending on the function, the key fails to resolve (or uses its fallback) or gets a default color.`,
+          keys: [key],
+          palette: splitKey(key)[0],
+        });
+      }
+    };
+    const checkFunction = (key: string, colorFunction: ColorFunction): void => {
+      const name = this.getFunctionName(colorFunction);
+      colorFunction.args.forEach((arg) => checkArg(key, name, arg));
+    };
+
+    for (const [key, definition] of this.definitions) {
+      const values = definition instanceof ColorModes ? Object.values(definition.values) : [definition];
+      for (const value of values) {
+        if (value instanceof ColorFunction) checkFunction(key, value);
+      }
+    }
+    return issues;
+  }
+
+  private getFunctionName(colorFunction: ColorFunction): string {
+    for (const [name, fn] of this.colorRouter.getCustomFunctions()) {
+      if (fn === colorFunction.fn) return name;
+    }
+    return colorFunction.fn.name || 'a function';
+  }
+
+  private getAncestors(paletteName: string): string[] {
+    const ancestors: string[] = [];
+    let current = this.getPaletteConfig(paletteName)?.extends;
+    while (current && !ancestors.includes(current)) {
+      ancestors.push(current);
+      current = this.getPaletteConfig(current)?.extends;
+    }
+    return ancestors;
+  }
+
+  private getDescendants(paletteName: string): string[] {
+    const children = this.colorRouter
+      .getAllPalettes()
+      .filter(({ config }) => config.extends === paletteName)
+      .map(({ name }) => name);
+    return children.flatMap((child) => [child, ...this.getDescendants(child)]);
+  }
+
+  private getPaletteConfig(paletteName: string): PaletteConfig | undefined {
+    return this.colorRouter.getAllPalettes().find(({ name }) => name === paletteName)?.config;
+  }
+
+  private listKeys(keys: string[]): string {
+    return keys.map((key) => `'${key}'`).join(', ');
+  }
+}
@@ -1,4 +1,4 @@
-import { formatHex, parse } from 'culori';
+import { parse } from 'culori';
 import {
   bestContrastWith,
   colorMix,
@@ -8,39 +8,141 @@ import {
   darken,
   furthestFrom,
   closestColor,
+  simulateCVD,
+  toGamut,
+  scaleStep,
+  complement,
+  triad,
+  analogous,
+  splitComplement,
+  tetrad,
+  saturate,
+  desaturate,
+  tint,
+  shade,
+  fade,
 } from '../colorFunctions';
 import {
   PaletteConfig,
   ColorChangeEvent,
   ColorReference,
   ColorFunction,
+  ColorModes,
   ColorDefinition,
+  ModeDefinition,
   LogCallback,
   ColorRendererClass,
+  SerializedColorDefinition,
+  SerializedColorRouter,
+  RegisteredFunction,
+  OutputFormat,
+  PaletteContract,
+  ContractReport,
+  AuditOptions,
+  AuditReport,
+  ContrastPair,
+  ContrastResult,
+  AccessibilityReport,
+  AccessibilityViolationEvent,
+  CVDAnalysisOptions,
+  CVDReport,
+  GamutSpace,
+  OutOfGamutColor,
+  ScaleOptions,
+  DefineOptions,
+  ColorMetadata,
+  SafeResolveResult,
+  ResolveOptions,
+  ModeChangeEvent,
+  BatchCompleteEvent,
+  BatchFailedEvent,
+  ColorRouterEventName,
+  ColorRouterListener,
+  WatchCallback,
+  WatchEventDetail,
+  WatchPattern,
+  Unsubscribe,
+  ListenerOptions,
+  ColorSchema,
+  SchemaKey,
+  SchemaPalette,
+  ColorConfig,
+  ColorConfigNode,
+  InferSchema,
+  ColorRouterView,
 } from '../types';
 import { PaletteError, CircularDependencyError } from './errors';
 import { DependencyGraph } from './DependencyGraph';
 import { PaletteManager } from './PaletteManager';
+import { ExpressionParser } from './ExpressionParser';
+import { HistoryManager, SnapshotDiff, applySnapshotDiff, diffSnapshots } from './HistoryManager';
+import { Auditor } from './Auditor';
+import { measureContrast, findIndistinguishablePairs, COLOR_VISION_DEFICIENCIES } from '../accessibility';
+import { splitKey } from './keys';
+import {
+  DEFAULT_OUTPUT_FORMAT,
+  formatColor,
+  gamutOf,
+  isGamutSpace,
+  isInGamut,
+  isOutputColorSpace,
+} from './colorFormat';
+import { computeScaleSteps } from './scale';
+
+interface RouterSnapshot {
+  definitions: Map<string, ColorDefinition>;
+  resolved: Map<string, string>;
+  unclipped: Map<string, string>;
+  edges: Map<string, string[]>;
+  palettes: Map<string, PaletteConfig>;
+  batchQueue: Set<string>;
+  fallbacks: Map<string, ColorDefinition>;
+  errors: Map<string, Error>;
+  fallbacksUsed: Set<string>;
+  metadata: Map<string, ColorMetadata>;
+  contrastPairs: Map<string, ContrastPair>;
+  activeMode: string | undefined;
+  output: OutputFormat;
+  gamutTarget: GamutSpace | undefined;
+}
 
-export class ColorRouter {
+export class ColorRouter<S extends ColorSchema = ColorSchema> {
   readonly #paletteManager: PaletteManager;
   readonly #definitions = new Map<string, ColorDefinition>();
-  readonly #resolved = new Map<string, string>();
+  #resolved = new Map<string, string>();
+  #unclipped = new Map<string, string>(); // Resolved values before formatting to the output space
+  readonly #fallbacks = new Map<string, ColorDefinition>();
+  #errors = new Map<string, Error>();
+  #fallbacksUsed = new Set<string>();
+  readonly #metadata = new Map<string, ColorMetadata>();
+  readonly #warnedDeprecations = new Set<string>();
+  readonly #contrastPairs = new Map<string, ContrastPair>();
+  #activeMode?: string;
   readonly #dependencyGraph: DependencyGraph;
+  readonly #auditor: Auditor;
   #mode: 'auto' | 'batch' = 'auto';
   readonly #batchQueue = new Set<string>();
   readonly #eventEmitter = new EventTarget();
   readonly #customFunctions = new Map<string, (...args: any[]) => string>();
   readonly #paletteAwareFunctions = new Set<string>();
+  #pendingChanges: Map<string, ColorChangeEvent> | null = null;
+  #pendingContrastRecheck = false;
+  #output: OutputFormat = { ...DEFAULT_OUTPUT_FORMAT };
+  #gamutTarget?: GamutSpace;
+  readonly #gamutWarnings = new Set<string>();
+  #history?: HistoryManager;
+  #isRecording = false;
 
   #ColorRenderer?: ColorRendererClass;
   #logCallback?: LogCallback;
 
-  constructor(options: { mode?: 'auto' | 'batch' } = {}) {
+  constructor(options: { mode?: 'auto' | 'batch'; output?: Partial<OutputFormat> } = {}) {
     this.#mode = options.mode || 'auto';
+    if (options.output) this.#output = this.#validateOutputFormat(options.output);
     this.#logCallback = undefined;
     this.#paletteManager = new PaletteManager(this.#definitions, this, this.#logCallback);
     this.#dependencyGraph = new DependencyGraph(this.#logCallback);
+    this.#auditor = new Auditor(this.#definitions, this);
     this.#registerBuiltinFunctions();
   }
 
@@ -54,6 +156,19 @@ export class ColorRouter {
     this.registerFunction('relativeTo', relativeTo);
     this.registerFunction('lighten', lighten);
     this.registerFunction('darken', darken);
+    this.registerFunction('saturate', saturate);
+    this.registerFunction('desaturate', desaturate);
+    this.registerFunction('tint', tint);
+    this.registerFunction('shade', shade);
+    this.registerFunction('fade', fade);
+    this.registerFunction('simulateCVD', simulateCVD);
+    this.registerFunction('toGamut', toGamut);
+    this.registerFunction('scaleStep', scaleStep);
+    this.registerFunction('complement', complement);
+    this.registerFunction('triad', triad);
+    this.registerFunction('analogous', analogous);
+    this.registerFunction('splitComplement', splitComplement);
+    this.registerFunction('tetrad', tetrad);
   }
 
   registerFunction(name: string, fn: (...args: any[]) => string, options?: { isPaletteAware?: boolean }): void {
@@ -81,17 +196,18 @@ export class ColorRouter {
       if (typeof arg === 'string' && arg.includes('.')) {
         resolutionDependencySet.add(arg);
         visualDependencySet.add(arg);
+      } else if (arg instanceof ColorFunction) {
+        arg.dependencies.forEach((dep) => resolutionDependencySet.add(dep));
+        arg.visualDependencies.forEach((dep) => visualDependencySet.add(dep));
       }
     });
 
     if (this.#paletteAwareFunctions.has(name)) {
       for (const arg of args) {
-        if (typeof arg === 'string' && !arg.includes('.') && this.#paletteManager.hasPalette(arg)) {
-          const paletteKeys = this.#paletteManager.getAllKeysForPalette(arg);
-          for (const pKey of paletteKeys) {
-            resolutionDependencySet.add(pKey);
-          }
-          visualDependencySet.add(`palette:${arg}`);
+        if (typeof arg === 'string' && !arg.includes('.') && (this.#paletteManager.hasPalette(arg) || !parse(arg))) {
+          // Depend on the palette as a whole, so keys added to it later (or the palette itself) are picked up too.
+          resolutionDependencySet.add(DependencyGraph.paletteNode(arg));
+          visualDependencySet.add(DependencyGraph.paletteNode(arg));
         }
       }
     }
@@ -104,47 +220,280 @@ export class ColorRouter {
 
   createPalette(
     name: string,
-    options: { extends?: string; overrides?: Record<string, any>; description?: string } = {},
+    options: {
+      extends?: string;
+      overrides?: Record<string, any>;
+      description?: string;
+      contract?: string;
+      modes?: string[];
+    } = {},
   ): void {
-    this.#paletteManager.createPalette(name, options);
+    this.#record(`createPalette ${name}`, () => {
+      this.#paletteManager.createPalette(name, options);
+      this.#linkInheritedKeys(name);
+      this.#updatePaletteDependents(name);
+    });
   }
 
   extendPalette(name: string, basePalette: string, overrides: Record<string, any> = {}, description?: string): void {
-    this.#paletteManager.extendPalette(name, basePalette, overrides, description);
+    this.#record(`extendPalette ${name}`, () => {
+      this.#paletteManager.extendPalette(name, basePalette, overrides, description);
+      this.#linkInheritedKeys(name);
+      this.#updatePaletteDependents(name);
+    });
   }
 
   copyPalette(sourceName: string, targetName: string): void {
-    this.#paletteManager.copyPalette(sourceName, targetName);
+    this.#record(`copyPalette ${sourceName} -> ${targetName}`, () => {
+      this.#paletteManager.copyPalette(sourceName, targetName);
+      this.#updatePaletteDependents(targetName);
+    });
   }
 
   deletePalette(name: string): void {
-    const keysToDelete = this.#paletteManager.deletePalette(name);
-    for (const key of keysToDelete) {
-      this.#definitions.delete(key);
-      this.#resolved.delete(key);
-      this.#dependencyGraph.removeNode(key);
+    this.#record(`deletePalette ${name}`, () => {
+      const keysToDelete = this.#paletteManager.deletePalette(name);
+      const removals: ColorChangeEvent[] = [];
+      for (const key of keysToDelete) {
+        const oldValue = this.#resolved.get(key);
+        if (oldValue !== undefined) removals.push({ key, oldValue, newValue: undefined });
+        this.#definitions.delete(key);
+        this.#fallbacks.delete(key);
+        this.#errors.delete(key);
+        this.#fallbacksUsed.delete(key);
+        this.#metadata.delete(key);
+        this.#resolved.delete(key);
+        this.#unclipped.delete(key);
+        this.#dependencyGraph.removeNode(key);
+      }
+      this.#notify(removals);
+      // Functions that searched the deleted palette fall back to their defaults.
+      this.#updatePaletteDependents(name);
+    });
+  }
+
+  defineContract(name: string, contract: PaletteContract): void {
+    this.#paletteManager.defineContract(name, contract);
+  }
+
+  validateContracts(): ContractReport[] {
+    return this.#paletteManager.validateContracts();
+  }
+
+  /**
+   * Checks the whole configuration for unused keys and palettes, long reference chains, duplicate colors,
+   * references that loop back through inheritance, and function arguments that cannot be parsed.
+   * @param options Per-rule severities (or `'off'`) and thresholds.
+   */
+  audit(options?: AuditOptions): AuditReport {
+    return this.#auditor.audit(options);
+  }
+
+  /**
+   * Declares that a foreground must reach a contrast level on a background, in every palette holding both
+   * (or in `pair.palettes`). Declaring the same pair again replaces its level. The pair is checked in every theme
+   * mode when declared, whenever either color changes and when the active mode changes; failures are reported
+   * through `a11y-violation` events.
+   */
+  defineContrastPair(pair: ContrastPair): void {
+    measureContrast('#000', '#fff', pair.level); // Rejects unknown levels
+    const id = `${pair.foreground} on ${pair.background}`;
+    this.#contrastPairs.set(id, { ...pair, ...(pair.palettes ? { palettes: [...pair.palettes] } : {}) });
+    const declared = this.#contrastPairs.get(id);
+    this.#reportContrastViolations((candidate) => candidate === declared);
+  }
+
+  removeContrastPair(foreground: string, background: string): boolean {
+    return this.#contrastPairs.delete(`${foreground} on ${background}`);
+  }
+
+  getContrastPairs(): ContrastPair[] {
+    return Array.from(this.#contrastPairs.values());
+  }
+
+  /**
+   * Checks every declared contrast pair in every palette holding both colors, in each of the palette's theme modes.
+   * @returns The passing and failing pairs with their actual contrast.
+   */
+  validateContrastPairs(): AccessibilityReport {
+    const results: ContrastResult[] = [];
+    for (const pair of this.#contrastPairs.values()) {
+      for (const paletteName of this.#getContrastPairPalettes(pair)) {
+        results.push(...this.#checkContrastPairInModes(pair, paletteName));
+      }
+    }
+    const failing = results.filter(({ passes }) => !passes);
+    return { passing: results.filter(({ passes }) => passes), failing, valid: failing.length === 0 };
+  }
+
+  /**
+   * Finds keys of a palette (including inherited keys) that are easy to tell apart with normal vision
+   * but not under a simulated color vision deficiency.
+   * @param paletteName The palette to check.
+   * @param options Which keys and deficiencies to check, the severity, and the distance threshold.
+   * @returns The conflicting pairs per deficiency, closest first.
+   */
+  analyzeCVD(paletteName: SchemaPalette<S>, options: CVDAnalysisOptions = {}): CVDReport {
+    if (!this.#paletteManager.hasPalette(paletteName)) {
+      throw new PaletteError(`Palette "${paletteName}" does not exist.`);
+    }
+    const colors: Array<[string, string]> = [];
+    for (const key of this.getAllKeysForPalette(paletteName, options.subPath)) {
+      const { value } = this.resolveSafe(key as SchemaKey<S>, { mode: options.mode });
+      if (value !== undefined) colors.push([key, value]);
     }
+
+    const threshold = options.threshold ?? 10;
+    const conflicts = findIndistinguishablePairs(colors, {
+      deficiencies: options.deficiencies ?? COLOR_VISION_DEFICIENCIES,
+      severity: options.severity ?? 1,
+      threshold,
+    });
+    return { palette: paletteName, threshold, conflicts, valid: conflicts.length === 0 };
   }
 
-  define(key: string, value: ColorDefinition): void {
-    const [paletteName] = key.split('.');
+  /**
+   * Defines a tonal scale in a palette: one `scaleStep` function per step, so every step follows the seed.
+   * Existing keys at the step paths are replaced, and the palette's own keys under `path` that are not steps of the
+   * new scale (e.g. left from a scale with more steps) are removed. All of it happens in one transaction.
+   * @param paletteName The palette to define the steps in.
+   * @param seedKey The key the scale takes its hue and chroma from.
+   * @param options Step count and names, lightness targets and easing, and chroma tapering.
+   * @returns The defined keys, lightest first.
+   */
+  generateScale(paletteName: SchemaPalette<S>, seedKey: SchemaKey<S>, options: ScaleOptions = {}): string[] {
     if (!this.#paletteManager.hasPalette(paletteName)) {
       throw new PaletteError(`Palette "${paletteName}" does not exist. Create it first.`);
     }
-    this.#set(key, value);
+    if (!this.has(seedKey)) throw new PaletteError(`Seed color "${seedKey}" is not defined.`);
+    const steps = computeScaleSteps(options);
+    const space = options.space ?? 'oklch';
+    const path = options.path ?? 'scale';
+    const keys = steps.map(({ name }) => `${paletteName}.${path}.${name}`);
+    if (keys.includes(seedKey)) {
+      throw new PaletteError(`Seed color "${seedKey}" would be replaced by a step of its own scale.`);
+    }
+    const staleKeys = Array.from(this.#definitions.keys()).filter(
+      (key) => key.startsWith(`${paletteName}.${path}.`) && !keys.includes(key),
+    );
+
+    this.transaction(() => {
+      steps.forEach(({ lightness, chroma }, i) => {
+        this.define(keys[i] as SchemaKey<S>, this.func('scaleStep', seedKey, lightness, chroma, space));
+      });
+      staleKeys.forEach((key) => this.#removeKey(key));
+    });
+    return keys;
+  }
+
+  #getContrastPairPalettes(pair: ContrastPair): string[] {
+    const paletteNames = pair.palettes ?? this.#paletteManager.getAllPalettes().map(({ name }) => name);
+    return paletteNames.filter(
+      (name) =>
+        this.#paletteManager.hasPalette(name) &&
+        this.has(`${name}.${pair.foreground}`) &&
+        this.has(`${name}.${pair.background}`),
+    );
+  }
+
+  #checkContrastPair(pair: ContrastPair, paletteName: string, mode: string | undefined): ContrastResult {
+    const foreground = `${paletteName}.${pair.foreground}`;
+    const background = `${paletteName}.${pair.background}`;
+    const base = { foreground, background, palette: paletteName, mode, level: pair.level };
+    const algorithm = typeof pair.level === 'object' ? 'apca' : 'wcag2';
+
+    const foregroundResult = this.resolveSafe(foreground as SchemaKey<S>, { mode });
+    const backgroundResult = this.resolveSafe(background as SchemaKey<S>, { mode });
+    const error = foregroundResult.value === undefined ? foregroundResult.error : backgroundResult.error;
+    if (foregroundResult.value === undefined || backgroundResult.value === undefined) {
+      return { ...base, algorithm, contrast: 0, required: 0, passes: false, error: error?.message };
+    }
+
+    const values = { foregroundValue: foregroundResult.value, backgroundValue: backgroundResult.value };
+    return { ...base, ...measureContrast(values.foregroundValue, values.backgroundValue, pair.level), ...values };
   }
 
-  set(key: string, value: ColorDefinition): void {
+  #checkContrastPairInModes(pair: ContrastPair, paletteName: string): ContrastResult[] {
+    const modes = this.getModes(paletteName);
+    return (modes.length > 0 ? modes : [undefined]).map((mode) => this.#checkContrastPair(pair, paletteName, mode));
+  }
+
+  /**
+   * Re-checks the contrast pairs touched by changed keys and emits `a11y-violation` for failures.
+   */
+  #checkChangedContrastPairs(changes: ColorChangeEvent[]): void {
+    const changedKeys = new Set(changes.map(({ key }) => key));
+    this.#reportContrastViolations(
+      (pair, paletteName) =>
+        changedKeys.has(`${paletteName}.${pair.foreground}`) || changedKeys.has(`${paletteName}.${pair.background}`),
+    );
+  }
+
+  /**
+   * Checks the selected contrast pairs in every theme mode of each palette holding both colors,
+   * and emits one `a11y-violation` event listing the failures.
+   */
+  #reportContrastViolations(isAffected: (pair: ContrastPair, paletteName: string) => boolean): void {
+    const violations: ContrastResult[] = [];
+    for (const pair of this.#contrastPairs.values()) {
+      for (const paletteName of this.#getContrastPairPalettes(pair)) {
+        if (!isAffected(pair, paletteName)) continue;
+        violations.push(...this.#checkContrastPairInModes(pair, paletteName).filter(({ passes }) => !passes));
+      }
+    }
+
+    if (violations.length > 0) {
+      this.#eventEmitter.dispatchEvent(
+        new CustomEvent<AccessibilityViolationEvent>('a11y-violation', { detail: { violations } }),
+      );
+    }
+  }
+
+  define(key: SchemaKey<S>, value: ColorDefinition, options?: DefineOptions): void {
+    const [paletteName, colorPath] = splitKey(key);
+    if (!this.#paletteManager.hasPalette(paletteName)) {
+      throw new PaletteError(`Palette "${paletteName}" does not exist. Create it first.`);
+    }
+    if (colorPath.split('.').some((segment) => segment === '')) {
+      throw new PaletteError(`Invalid color key "${key}". Expected "palette.name" with non-empty segments.`);
+    }
+    this.#paletteManager.assertKeyAllowed(key);
+    this.#record(`define ${key}`, () => this.#set(key, value, options));
+  }
+
+  set(key: SchemaKey<S>, value: ColorDefinition, options?: DefineOptions): void {
     if (!this.has(key)) throw new PaletteError(`Color "${key}" is not defined. Use .define() first.`);
-    this.#set(key, value);
+    this.#record(`set ${key}`, () => this.#set(key, value, options));
   }
 
-  #set(key: string, value: ColorDefinition): void {
-    if (typeof value === 'string' && !parse(value)) {
-      throw new PaletteError(`Invalid color value: "${value}". Must be a valid CSS color or a router function.`);
+  #set(key: string, value: ColorDefinition, options?: DefineOptions): void {
+    const modeValues = value instanceof ColorModes ? Object.values(value.values) : [];
+    for (const candidate of [value, options?.fallback, ...modeValues]) {
+      if (typeof candidate === 'string' && !parse(candidate)) {
+        throw new PaletteError(`Invalid color value: "${candidate}". Must be a valid CSS color or a router function.`);
+      }
     }
+    if (value instanceof ColorModes) this.#validateModes(key, value);
+    if (options?.fallback instanceof ColorModes) this.#validateModes(key, options.fallback);
+    const isNewKey = !this.#definitions.has(key);
     this.#definitions.set(key, value);
-    this.#dependencyGraph.updateEdges(key, value);
+    if (options && 'fallback' in options) {
+      if (options.fallback === undefined) {
+        this.#fallbacks.delete(key);
+      } else {
+        this.#fallbacks.set(key, options.fallback);
+      }
+    }
+    if (options) this.#setMetadata(key, options);
+    this.#dependencyGraph.updateEdges(key, value, this.#fallbacks.get(key));
+    for (const prerequisite of this.#dependencyGraph.getPrerequisitesFor(key)) {
+      this.#warnIfDeprecated(prerequisite, `'${key}' references`);
+    }
+    this.#propagateInheritance(key);
+    for (const prerequisite of this.#dependencyGraph.getPrerequisitesFor(key)) {
+      if (DependencyGraph.isPaletteNode(prerequisite)) this.#syncPaletteNode(prerequisite.slice('palette:'.length));
+    }
+    if (isNewKey) this.#syncPaletteNodes(splitKey(key)[0]);
     if (this.#mode === 'auto') {
       this.#resolveAndNotify(key);
     } else {
@@ -153,10 +502,154 @@ export class ColorRouter {
     if (this.#logCallback) this.#logCallback(`Defined '${key}' = ${this.#valueToString(value)}`);
   }
 
+  /**
+   * Removes a key's own definition. Keys depending on it stay linked to it: they resolve through the inherited value
+   * if a base palette defines the key, and fail otherwise, until it is defined again.
+   */
+  #removeKey(key: string): void {
+    const [paletteName] = splitKey(key);
+    this.#definitions.delete(key);
+    this.#fallbacks.delete(key);
+    this.#errors.delete(key);
+    this.#fallbacksUsed.delete(key);
+    this.#metadata.delete(key);
+    this.#dependencyGraph.setPrerequisites(key, []);
+    this.#linkInheritedKeys(paletteName);
+    this.#syncPaletteNodes(paletteName);
+    if (this.#mode === 'auto') {
+      this.#resolveAndNotify(key);
+    } else {
+      this.#batchQueue.add(key);
+    }
+    this.#updatePaletteDependents(paletteName);
+    if (this.#logCallback) this.#logCallback(`Removed '${key}'`);
+  }
+
+  #setMetadata(key: string, options: DefineOptions): void {
+    const metadata: ColorMetadata = { ...this.#metadata.get(key) };
+    const copyField = <F extends keyof ColorMetadata>(field: F): void => {
+      if (!(field in options)) return;
+      const value: ColorMetadata[F] = options[field];
+      if (value === undefined) {
+        delete metadata[field];
+      } else {
+        metadata[field] = value;
+      }
+    };
+    copyField('description');
+    copyField('tags');
+    copyField('deprecated');
+    if (metadata.tags) metadata.tags = [...metadata.tags];
+    if (Object.keys(metadata).length > 0) {
+      this.#metadata.set(key, metadata);
+    } else {
+      this.#metadata.delete(key);
+    }
+  }
+
+  /**
+   * Warns (once per key and context) when a deprecated key is used, naming its replacement.
+   * Goes to the log callback; without one the warning is dropped, like every other router log.
+   */
+  #warnIfDeprecated(key: string, context: string): void {
+    const deprecated = this.getMetadata(key)?.deprecated;
+    if (!deprecated || this.#warnedDeprecations.has(`${context} ${key}`)) return;
+    this.#warnedDeprecations.add(`${context} ${key}`);
+
+    let message = `${context} deprecated color '${key}'`;
+    if (deprecated.since) message += ` (deprecated since ${deprecated.since})`;
+    message += deprecated.replacement ? `. Use '${deprecated.replacement}' instead.` : '.';
+    if (this.#logCallback) this.#logCallback(message);
+  }
+
+  #validateModes(key: string, value: ColorModes): void {
+    const [paletteName] = splitKey(key);
+    const modes = this.#paletteManager.getModesForPalette(paletteName);
+    if (!modes) {
+      throw new PaletteError(`Palette "${paletteName}" declares no modes, so '${key}' cannot hold per-mode values.`);
+    }
+    const unknown = Object.keys(value.values).filter((mode) => !modes.includes(mode));
+    if (unknown.length > 0) {
+      throw new PaletteError(
+        `Unknown mode(s) for '${key}': ${unknown.join(', ')}. Palette modes: ${modes.join(', ')}.`,
+      );
+    }
+    if (value.values[modes[0]] === undefined) {
+      throw new PaletteError(`'${key}' must hold a value for the default mode "${modes[0]}".`);
+    }
+  }
+
+  /**
+   * Points a palette's node at the keys it currently holds, if any palette-aware function depends on it.
+   */
+  #syncPaletteNode(paletteName: string): void {
+    const node = DependencyGraph.paletteNode(paletteName);
+    if (this.#dependencyGraph.getDependentsOf(node).length === 0) return;
+    const keys = this.#paletteManager.hasPalette(paletteName)
+      ? this.#paletteManager.getAllKeysForPalette(paletteName)
+      : [];
+    this.#dependencyGraph.setPrerequisites(node, keys);
+  }
+
+  /**
+   * Syncs the nodes of a palette and every palette inheriting from it, whose key sets all change with it.
+   */
+  #syncPaletteNodes(paletteName: string): void {
+    this.#syncPaletteNode(paletteName);
+    for (const child of this.#paletteManager.getChildPalettes(paletteName)) this.#syncPaletteNodes(child);
+  }
+
+  /**
+   * Re-syncs a palette's node after the palette was created, deleted or lost keys,
+   * and re-evaluates the functions depending on it.
+   */
+  #updatePaletteDependents(paletteName: string): void {
+    const node = DependencyGraph.paletteNode(paletteName);
+    this.#syncPaletteNode(paletteName);
+    if (this.#dependencyGraph.getDependentsOf(node).length === 0) return;
+    if (this.#mode === 'auto') {
+      this.#resolveAndNotify(node);
+    } else {
+      this.#batchQueue.add(node);
+    }
+  }
+
+  /**
+   * Records inherited keys of a palette as dependencies on the same key in its base palette,
+   * so changes to the base propagate to every key the palette does not override.
+   */
+  #linkInheritedKeys(paletteName: string): void {
+    const basePalette = this.#paletteManager.getPalette(paletteName)?.extends;
+    if (!basePalette) return;
+
+    for (const key of this.#paletteManager.getAllKeysForPalette(paletteName)) {
+      if (this.#definitions.has(key)) continue;
+      const colorName = key.substring(paletteName.length + 1);
+      this.#dependencyGraph.updateEdges(key, new ColorReference(`${basePalette}.${colorName}`));
+    }
+  }
+
+  /**
+   * Links the inherited copies of a newly (re)defined key in every descendant palette that does not override it.
+   */
+  #propagateInheritance(key: string): void {
+    const [paletteName, colorName] = splitKey(key);
+
+    for (const childPalette of this.#paletteManager.getChildPalettes(paletteName)) {
+      const inheritedKey = `${childPalette}.${colorName}`;
+      if (this.#definitions.has(inheritedKey)) continue;
+      this.#dependencyGraph.updateEdges(inheritedKey, new ColorReference(key));
+      this.#propagateInheritance(inheritedKey);
+    }
+  }
+
   flush(): void {
     if (this.#mode !== 'batch') return;
 
-    const keysToProcess = Array.from(this.#batchQueue);
+    // Dependents of queued keys (including inherited copies in extending palettes) are stale too.
+    const keysToProcess = Array.from(
+      new Set(Array.from(this.#batchQueue).flatMap((key) => this.#dependencyGraph.bfsTraversal(key, false))),
+    );
     this.#batchQueue.clear();
 
     let sortedKeys: string[];
@@ -169,7 +662,7 @@ export class ColorRouter {
         );
       }
       this.#eventEmitter.dispatchEvent(
-        new CustomEvent('batch-failed', {
+        new CustomEvent<BatchFailedEvent>('batch-failed', {
           detail: {
             error: e,
             stage: 'sorting',
@@ -184,6 +677,8 @@ export class ColorRouter {
 
     const allChanges: ColorChangeEvent[] = [];
     const processingErrors: { key: string; error: Error }[] = [];
+    // Palette nodes only order the keys around them; they have no value of their own.
+    sortedKeys = sortedKeys.filter((key) => !DependencyGraph.isPaletteNode(key));
 
     for (const key of sortedKeys) {
       const oldValue = this.#resolved.get(key);
@@ -199,10 +694,13 @@ export class ColorRouter {
 
         if (oldValue !== newValue) {
           allChanges.push({ key, oldValue, newValue });
-          this.#emit(key, newValue, oldValue);
         }
       } catch (e) {
         const error = e instanceof Error ? e : new Error(String(e));
+        // As in auto mode, a key that no longer resolves loses its cached value.
+        this.#resolved.delete(key);
+        this.#unclipped.delete(key);
+        if (oldValue !== undefined) allChanges.push({ key, oldValue, newValue: undefined });
         if (this.#logCallback) {
           this.#logCallback(`Error resolving key '${key}' during flush: ${error.message}`);
         }
@@ -210,7 +708,7 @@ export class ColorRouter {
       }
     }
 
-    const successCount = allChanges.length;
+    const successCount = allChanges.filter(({ newValue }) => newValue !== undefined).length;
     const errorCount = processingErrors.length;
     const processedCount = sortedKeys.length;
 
@@ -220,12 +718,10 @@ export class ColorRouter {
       this.#logCallback(summary);
     }
 
-    if (allChanges.length > 0) {
-      this.#eventEmitter.dispatchEvent(new CustomEvent('change', { detail: allChanges }));
-    }
+    this.#notify(allChanges);
 
     this.#eventEmitter.dispatchEvent(
-      new CustomEvent('batch-complete', {
+      new CustomEvent<BatchCompleteEvent>('batch-complete', {
         detail: {
           changes: allChanges,
           errors: processingErrors,
@@ -239,7 +735,9 @@ export class ColorRouter {
   #resolveAndNotify(startKey: string): void {
     let toUpdate: string[];
     try {
-      toUpdate = this.#dependencyGraph.getEvaluationOrderFor(startKey);
+      toUpdate = this.#dependencyGraph
+        .getEvaluationOrderFor(startKey)
+        .filter((key) => !DependencyGraph.isPaletteNode(key));
     } catch (e) {
       if (this.#logCallback) {
         this.#logCallback(`Error getting update order for '${startKey}': ${(e as Error).message}`);
@@ -250,35 +748,333 @@ export class ColorRouter {
     const changes: ColorChangeEvent[] = [];
     for (const key of toUpdate) {
       const oldValue = this.#resolved.get(key);
-      this.#resolveKey(key);
+      try {
+        this.#resolveKey(key);
+      } catch (e) {
+        if (e instanceof CircularDependencyError) throw e;
+        // The error stays recorded on the key; one bad value must not break the rest of the update.
+        this.#resolved.delete(key);
+        this.#unclipped.delete(key);
+        if (oldValue !== undefined) changes.push({ key, oldValue, newValue: undefined });
+        if (this.#logCallback) this.#logCallback(`Error resolving '${key}': ${(e as Error).message}`);
+        continue;
+      }
       const newValue = this.#resolved.get(key);
       if (oldValue !== newValue) {
-        changes.push({ key, oldValue, newValue: newValue! });
-        this.#emit(key, newValue!, oldValue);
+        changes.push({ key, oldValue, newValue });
+      }
+    }
+    this.#notify(changes);
+  }
+
+  /**
+   * Emits `watch:<key>` events and a single `change` event for the given changes.
+   * Inside a transaction the changes are merged per key and held back until it commits.
+   */
+  #notify(changes: ColorChangeEvent[], recheckAllContrastPairs = false): void {
+    if (this.#pendingChanges) {
+      for (const change of changes) {
+        const pending = this.#pendingChanges.get(change.key);
+        this.#pendingChanges.set(change.key, pending ? { ...change, oldValue: pending.oldValue } : change);
       }
+      this.#pendingContrastRecheck ||= recheckAllContrastPairs;
+      return;
+    }
+    for (const { key, newValue, oldValue } of changes) {
+      this.#emit(key, newValue, oldValue);
     }
     if (changes.length > 0) {
-      this.#eventEmitter.dispatchEvent(new CustomEvent('change', { detail: changes }));
+      this.#eventEmitter.dispatchEvent(new CustomEvent<ColorChangeEvent[]>('change', { detail: changes }));
+    }
+    if (recheckAllContrastPairs) {
+      this.#reportContrastViolations(() => true);
+    } else if (changes.length > 0) {
+      this.#checkChangedContrastPairs(changes);
+    }
+  }
+
+  /**
+   * Runs `fn` as an all-or-nothing unit. If it throws, definitions, resolved values, dependency edges,
+   * palettes, the batch queue, contrast pairs, the active mode and the output format are restored and the
+   * error is rethrown. If it succeeds, one merged `change` event is emitted. Nested transactions roll back
+   * only their own changes.
+   * @param fn The mutations to apply.
+   * @returns The return value of `fn`.
+   */
+  transaction<T>(fn: () => T): T {
+    const isOutermost = this.#pendingChanges === null;
+    const snapshot = this.#createSnapshot();
+    const pendingBefore = new Map(this.#pendingChanges ?? []);
+    this.#pendingChanges = new Map(pendingBefore);
+
+    let result: T;
+    try {
+      result = this.#record('transaction', fn);
+    } catch (e) {
+      this.#restoreSnapshot(snapshot);
+      this.#pendingChanges = isOutermost ? null : pendingBefore;
+      if (isOutermost) this.#pendingContrastRecheck = false;
+      if (this.#logCallback) this.#logCallback(`Transaction rolled back: ${(e as Error).message}`);
+      throw e;
+    }
+
+    if (isOutermost) {
+      const changes = [...this.#pendingChanges.values()].filter((change) => change.oldValue !== change.newValue);
+      const recheckAllContrastPairs = this.#pendingContrastRecheck;
+      this.#pendingChanges = null;
+      this.#pendingContrastRecheck = false;
+      this.#notify(changes, recheckAllContrastPairs);
+    }
+    return result;
+  }
+
+  #createSnapshot(): RouterSnapshot {
+    return {
+      definitions: new Map(this.#definitions),
+      resolved: new Map(this.#resolved),
+      unclipped: new Map(this.#unclipped),
+      edges: this.#dependencyGraph.snapshot(),
+      palettes: this.#paletteManager.snapshot(),
+      batchQueue: new Set(this.#batchQueue),
+      fallbacks: new Map(this.#fallbacks),
+      errors: new Map(this.#errors),
+      fallbacksUsed: new Set(this.#fallbacksUsed),
+      metadata: new Map(this.#metadata),
+      contrastPairs: new Map(this.#contrastPairs),
+      activeMode: this.#activeMode,
+      output: this.#output,
+      gamutTarget: this.#gamutTarget,
+    };
+  }
+
+  #restoreSnapshot(snapshot: RouterSnapshot): void {
+    this.#replaceContents(this.#definitions, snapshot.definitions);
+    this.#replaceContents(this.#resolved, snapshot.resolved);
+    this.#replaceContents(this.#unclipped, snapshot.unclipped);
+    this.#dependencyGraph.restore(snapshot.edges);
+    this.#paletteManager.restore(snapshot.palettes);
+    this.#batchQueue.clear();
+    snapshot.batchQueue.forEach((key) => this.#batchQueue.add(key));
+    this.#replaceContents(this.#fallbacks, snapshot.fallbacks);
+    this.#replaceContents(this.#errors, snapshot.errors);
+    this.#fallbacksUsed.clear();
+    snapshot.fallbacksUsed.forEach((key) => this.#fallbacksUsed.add(key));
+    this.#replaceContents(this.#metadata, snapshot.metadata);
+    this.#replaceContents(this.#contrastPairs, snapshot.contrastPairs);
+    this.#activeMode = snapshot.activeMode;
+    this.#output = snapshot.output;
+    this.#gamutTarget = snapshot.gamutTarget;
+  }
+
+  /**
+   * Turns history on. Every `define`, `set`, palette operation and transaction is recorded
+   * as one command that `undo()` can reverse.
+   * @param options `limit` caps the number of recorded commands (default 100).
+   */
+  enableHistory(options: { limit?: number } = {}): void {
+    this.#history = new HistoryManager(options.limit);
+  }
+
+  disableHistory(): void {
+    this.#history = undefined;
+  }
+
+  get history(): HistoryManager | undefined {
+    return this.#history;
+  }
+
+  undo(): boolean {
+    return this.#requireHistory().undo() !== undefined;
+  }
+
+  redo(): boolean {
+    return this.#requireHistory().redo() !== undefined;
+  }
+
+  checkpoint(name: string): void {
+    this.#requireHistory().checkpoint(name);
+  }
+
+  restoreCheckpoint(name: string): void {
+    this.#requireHistory().restoreCheckpoint(name);
+  }
+
+  #requireHistory(): HistoryManager {
+    if (!this.#history) throw new PaletteError('History is not enabled. Call enableHistory() first.');
+    return this.#history;
+  }
+
+  /**
+   * Runs a mutation and, when history is enabled, records it as a single command that keeps only the
+   * entries the mutation changed. Mutations nested inside another recorded mutation (e.g. palette overrides)
+   * are part of the outer command.
+   */
+  #record<T>(label: string, fn: () => T): T {
+    const history = this.#history;
+    if (!history || this.#isRecording || history.isReplaying) return fn();
+
+    const before = this.#createSnapshot();
+    let result: T;
+    this.#isRecording = true;
+    try {
+      result = fn();
+    } finally {
+      this.#isRecording = false;
+    }
+    const after = this.#createSnapshot();
+    const undoDiff = diffSnapshots(after, before);
+    const redoDiff = diffSnapshots(before, after);
+
+    history.push({
+      label,
+      undo: () => this.#applyDiff(undoDiff),
+      redo: () => this.#applyDiff(redoDiff),
+    });
+    if (this.#logCallback) this.#logCallback(`Recorded '${label}' in history.`);
+    return result;
+  }
+
+  /**
+   * Applies a recorded diff to the current state, then re-resolves the keys that were resolved on either side
+   * and emits the usual `watch:` and `change` events for every value that differs, and `mode-change` if the
+   * active mode changed.
+   */
+  #applyDiff(diff: SnapshotDiff<RouterSnapshot>): void {
+    const previousMode = this.#activeMode;
+    const snapshot = applySnapshotDiff(this.#createSnapshot(), diff);
+    this.#restoreSnapshot({ ...snapshot, resolved: new Map(this.#resolved), unclipped: new Map(this.#unclipped) });
+    this.#refreshResolved(snapshot.resolved.keys(), snapshot.activeMode !== previousMode);
+    if (this.#activeMode !== previousMode) {
+      this.#eventEmitter.dispatchEvent(
+        new CustomEvent<ModeChangeEvent>('mode-change', { detail: { mode: this.#activeMode, previousMode } }),
+      );
+    }
+  }
+
+  /**
+   * Clears the resolved cache, re-resolves every previously resolved key (plus `additionalKeys`)
+   * and emits `watch:` and `change` events for every value that differs or whose key no longer exists.
+   * With `recheckAllContrastPairs`, every contrast pair is re-checked rather than only those touched by changes.
+   */
+  #refreshResolved(additionalKeys: Iterable<string> = [], recheckAllContrastPairs = false): void {
+    const previous = new Map(this.#resolved);
+    this.#resolved.clear();
+    this.#unclipped.clear();
+
+    const changes: ColorChangeEvent[] = [];
+    for (const key of new Set([...previous.keys(), ...additionalKeys])) {
+      const oldValue = previous.get(key);
+      if (!this.has(key)) {
+        if (oldValue !== undefined) changes.push({ key, oldValue, newValue: undefined });
+        continue;
+      }
+      try {
+        const newValue = this.#resolved.get(key) ?? this.#resolveKey(key);
+        if (newValue !== oldValue) changes.push({ key, oldValue, newValue });
+      } catch (e) {
+        if (this.#logCallback) this.#logCallback(`Failed to re-resolve '${key}': ${(e as Error).message}`);
+      }
     }
+    this.#notify(changes, recheckAllContrastPairs);
+  }
+
+  #replaceContents<K, V>(target: Map<K, V>, source: Map<K, V>): void {
+    target.clear();
+    source.forEach((value, key) => target.set(key, value));
   }
 
   #resolveKey(key: string, path: string[] = []): string {
     if (path.includes(key)) throw new CircularDependencyError([...path, key]);
-    const definition = this.#getDefinition(key);
-    let newValue: string;
-    if (definition instanceof ColorReference) {
-      newValue = this.#resolveKey(definition.key, [...path, key]);
-    } else if (definition instanceof ColorFunction) {
-      newValue = definition.execute(this);
-    } else {
-      newValue = this.#normalizeColor(definition);
+    let rawValue: string;
+    try {
+      rawValue = this.#evaluate(this.#getDefinition(key), key, path);
+      this.#errors.delete(key);
+      this.#fallbacksUsed.delete(key);
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      // Missing keys carry no error of their own; the keys referencing them do.
+      if (this.has(key)) this.#errors.set(key, error);
+      const fallback = this.#findInHierarchy(key, this.#fallbacks);
+      if (fallback === undefined || error instanceof CircularDependencyError) {
+        this.#fallbacksUsed.delete(key);
+        throw error;
+      }
+      rawValue = this.#evaluate(fallback, key, path);
+      this.#fallbacksUsed.add(key);
+      if (this.#logCallback) this.#logCallback(`Resolved '${key}' from its fallback: ${error.message}`);
     }
+    const newValue = this.#normalizeColor(rawValue);
     this.#resolved.set(key, newValue);
+    this.#unclipped.set(key, rawValue);
+    this.#checkGamut(key, rawValue, newValue);
     return newValue;
   }
 
+  /**
+   * Evaluates a definition to its color before formatting, so values outside the output gamut are kept.
+   */
+  #evaluate(definition: ColorDefinition, key: string, path: string[]): string {
+    if (definition instanceof ColorModes) {
+      return this.#evaluate(this.#selectModeValue(definition, key), key, path);
+    }
+    if (definition instanceof ColorReference) {
+      const value = this.#resolveKey(definition.key, [...path, key]);
+      return this.#unclipped.get(definition.key) ?? value;
+    }
+    if (definition instanceof ColorFunction) {
+      const result = definition.execute(this);
+      if (!parse(result)) {
+        throw new PaletteError(`Function result "${result}" for '${key}' is not a valid color.`);
+      }
+      return result;
+    }
+    return definition;
+  }
+
+  /**
+   * Logs a warning the first time a key's unclipped value falls outside the gamut target.
+   */
+  #checkGamut(key: string, rawValue: string, resolvedValue: string): void {
+    const gamut = this.gamutTarget;
+    const parsed = parse(rawValue);
+    if (!gamut || !parsed || isInGamut(parsed, gamut)) {
+      this.#gamutWarnings.delete(key);
+      return;
+    }
+    if (this.#gamutWarnings.has(key)) return;
+    this.#gamutWarnings.add(key);
+    if (this.#logCallback) {
+      this.#logCallback(
+        `'${key}' is outside the ${gamut} gamut (${rawValue}) and is clipped to ${resolvedValue}. ` +
+          `Use toGamut() to map it without shifting its hue.`,
+      );
+    }
+  }
+
+  /**
+   * Picks the value of a per-mode definition for the active mode, or the palette's default mode.
+   */
+  #selectModeValue(definition: ColorModes, key: string): ModeDefinition {
+    if (this.#activeMode !== undefined && definition.values[this.#activeMode] !== undefined) {
+      return definition.values[this.#activeMode];
+    }
+    const defaultMode = this.#paletteManager.getModesForPalette(splitKey(key)[0])?.[0];
+    const value = defaultMode === undefined ? undefined : definition.values[defaultMode];
+    if (value === undefined) throw new PaletteError(`'${key}' has no value for its palette's default mode.`);
+    return value;
+  }
+
   #getDefinition(key: string): ColorDefinition {
-    let [paletteName, colorName] = key.split('.');
+    const definition = this.#findInHierarchy(key, this.#definitions);
+    if (definition === undefined) throw new PaletteError(`Color '${key}' not found in palette hierarchy.`);
+    return definition;
+  }
+
+  /**
+   * Looks a key up in `source`, walking the palette `extends` chain until a palette holds it.
+   */
+  #findInHierarchy<T>(key: string, source: Map<string, T>): T | undefined {
+    let [paletteName, colorName] = splitKey(key);
     const visitedPalettes = new Set<string>();
 
     while (paletteName) {
@@ -288,16 +1084,151 @@ export class ColorRouter {
       visitedPalettes.add(paletteName);
 
       const currentKey = `${paletteName}.${colorName}`;
-      if (this.#definitions.has(currentKey)) return this.#definitions.get(currentKey)!;
+      if (source.has(currentKey)) return source.get(currentKey)!;
 
       const paletteConfig = this.#paletteManager.getPalette(paletteName);
       if (!paletteConfig || !paletteConfig.extends) break;
       paletteName = paletteConfig.extends;
     }
-    throw new PaletteError(`Color '${key}' not found in palette hierarchy.`);
+    return undefined;
+  }
+
+  /**
+   * Resolves a key without throwing.
+   * @returns The value (from the definition or its fallback), the error that occurred, and whether the fallback was used.
+   */
+  resolveSafe(key: SchemaKey<S>, options: ResolveOptions = {}): SafeResolveResult {
+    try {
+      this.#warnIfDeprecated(key, 'Resolving');
+      return this.#inMode(options.mode, () => {
+        const value = this.#resolve(key);
+        return { value, error: this.#errors.get(key), usedFallback: this.#fallbacksUsed.has(key) };
+      });
+    } catch (e) {
+      return { value: undefined, error: e instanceof Error ? e : new Error(String(e)), usedFallback: false };
+    }
+  }
+
+  /**
+   * Runs `fn` with another theme mode active, using scratch resolution state so the active mode's cache
+   * and recorded errors are untouched. Runs `fn` directly when `mode` is undefined or already active.
+   */
+  #inMode<T>(mode: string | undefined, fn: () => T): T {
+    if (mode === undefined || mode === this.#activeMode) return fn();
+    this.#requireMode(mode);
+
+    const [activeMode, resolved, unclipped, errors, fallbacksUsed] = [
+      this.#activeMode,
+      this.#resolved,
+      this.#unclipped,
+      this.#errors,
+      this.#fallbacksUsed,
+    ] as const;
+    this.#activeMode = mode;
+    this.#resolved = new Map();
+    this.#unclipped = new Map();
+    this.#errors = new Map();
+    this.#fallbacksUsed = new Set();
+    try {
+      return fn();
+    } finally {
+      this.#activeMode = activeMode;
+      this.#resolved = resolved;
+      this.#unclipped = unclipped;
+      this.#errors = errors;
+      this.#fallbacksUsed = fallbacksUsed;
+    }
   }
 
-  resolve(key: string): string {
+  #requireMode(mode: string): void {
+    if (!this.#paletteManager.getAllModes().includes(mode)) {
+      throw new PaletteError(`Mode "${mode}" is not declared by any palette.`);
+    }
+  }
+
+  get activeMode(): string | undefined {
+    return this.#activeMode;
+  }
+
+  /**
+   * Switches the theme mode that per-mode colors resolve in. Re-resolves cached keys, emits `change` /
+   * `watch:` events for values that differ, re-checks every contrast pair, then emits a `mode-change` event.
+   * @param mode A mode declared by any palette, or undefined to use each palette's default mode.
+   */
+  setActiveMode(mode: string | undefined): void {
+    if (mode === this.#activeMode) return;
+    if (mode !== undefined) this.#requireMode(mode);
+
+    const previousMode = this.#activeMode;
+    this.#activeMode = mode;
+    this.#refreshResolved([], true);
+    this.#eventEmitter.dispatchEvent(
+      new CustomEvent<ModeChangeEvent>('mode-change', { detail: { mode, previousMode } }),
+    );
+  }
+
+  /**
+   * Lists theme modes: those of one palette (default first), or every mode declared by any palette.
+   */
+  getModes(paletteName?: string): string[] {
+    if (paletteName === undefined) return this.#paletteManager.getAllModes();
+    return this.#paletteManager.getModesForPalette(paletteName) ?? [];
+  }
+
+  /**
+   * Gets the error recorded the last time a defined key failed to resolve (including failures during `flush`).
+   * The error is cleared once the key resolves from its own definition again.
+   */
+  getError(key: string): Error | undefined {
+    return this.#errors.get(key);
+  }
+
+  getErrors(): Map<string, Error> {
+    return new Map(this.#errors);
+  }
+
+  getFallback(key: string): ColorDefinition | undefined {
+    return this.#findInHierarchy(key, this.#fallbacks);
+  }
+
+  /**
+   * Gets the description, tags and deprecation of a key. Inherited keys share their base key's metadata.
+   */
+  getMetadata(key: string): ColorMetadata | undefined {
+    const metadata = this.#findInHierarchy(key, this.#metadata);
+    return metadata && { ...metadata, ...(metadata.tags ? { tags: [...metadata.tags] } : {}) };
+  }
+
+  /**
+   * Finds every key (including inherited keys) tagged with `tag`.
+   */
+  findByTag(tag: string): string[] {
+    return this.#paletteManager
+      .getAllPalettes()
+      .flatMap(({ name }) => this.#paletteManager.getAllKeysForPalette(name))
+      .filter((key) => this.#findInHierarchy(key, this.#metadata)?.tags?.includes(tag));
+  }
+
+  /**
+   * Lists every key (including inherited keys) that is deprecated.
+   */
+  getDeprecated(): string[] {
+    return this.#paletteManager
+      .getAllPalettes()
+      .flatMap(({ name }) => this.#paletteManager.getAllKeysForPalette(name))
+      .filter((key) => this.#findInHierarchy(key, this.#metadata)?.deprecated !== undefined);
+  }
+
+  /**
+   * Resolves a key to its final color.
+   * @param options Pass `mode` to resolve in a theme mode other than the active one; nothing is cached or emitted.
+   */
+  resolve(key: SchemaKey<S>, options: ResolveOptions = {}): string {
+    this.#warnIfDeprecated(key, 'Resolving');
+    return this.#inMode(options.mode, () => this.#resolve(key));
+  }
+
+  #resolve(key: string): string {
     if (!this.#resolved.has(key)) {
       try {
         this.#resolveKey(key);
@@ -318,86 +1249,207 @@ export class ColorRouter {
     return resolvedValue;
   }
 
-  getAllKeysForPalette(paletteName: string): string[] {
-    return this.#paletteManager.getAllKeysForPalette(paletteName);
+  /**
+   * Runs a color function the way a definition using it would, without defining a key.
+   * @param colorFunction The function, e.g. from `func()`.
+   * @param options Pass `mode` to resolve its arguments in a theme mode other than the active one.
+   * @returns The function's result, before it is formatted to the output space.
+   */
+  evaluateFunction(colorFunction: ColorFunction, options: ResolveOptions = {}): string {
+    return this.#inMode(options.mode, () => colorFunction.execute(this));
   }
 
-  has(key: string): boolean {
-    let [pName, cName] = key.split('.');
-    const visitedPalettes = new Set<string>();
+  /**
+   * Resolves a key to its color before it is formatted to the output space, so values outside the output gamut
+   * are not clipped. Color functions receive their key arguments this way.
+   * @param options Pass `mode` to resolve in a theme mode other than the active one.
+   */
+  resolveUnclipped(key: SchemaKey<S>, options: ResolveOptions = {}): string {
+    return this.#inMode(options.mode, () => {
+      const resolvedValue = this.#resolve(key);
+      return this.#unclipped.get(key) ?? resolvedValue;
+    });
+  }
 
-    while (pName) {
-      if (visitedPalettes.has(pName)) {
-        throw new CircularDependencyError([...visitedPalettes, pName]);
-      }
-      visitedPalettes.add(pName);
+  getAllKeysForPalette(paletteName: string, subPath?: string): string[] {
+    return this.#paletteManager.getAllKeysForPalette(paletteName, subPath);
+  }
 
-      if (this.#definitions.has(`${pName}.${cName}`)) return true;
-      const pConfig = this.#paletteManager.getPalette(pName);
-      if (!pConfig || !pConfig.extends) break;
-      pName = pConfig.extends;
-    }
-    return false;
+  has(key: string): boolean {
+    if (!splitKey(key)[1]) return false;
+    return this.#findInHierarchy(key, this.#definitions) !== undefined;
   }
 
   #valueToString(value: ColorDefinition): string {
-    if (value instanceof ColorReference) return `ref('${value.key}')`;
-    if (value instanceof ColorFunction) {
-      const fnName =
-        [...this.#customFunctions.entries()].find(([_, fn]) => fn === value.fn)?.[0] ||
-        value.fn.name.replace('bound ', '');
-      const args = value.args
-        .map((a) => {
-          if (Array.isArray(a)) {
-            return `[${a
-              .map((item) => {
-                if (item === null) return 'null';
-                if (typeof item === 'string') return `'${item}'`;
-                return item;
-              })
-              .join(', ')}]`;
-          }
-          return typeof a === 'string' ? `'${a}'` : a;
-        })
-        .join(', ');
-      return `${fnName}(${args})`;
-    }
-    return `'${value}'`;
+    if (value instanceof ColorReference) return `ref(${this.#quote(value.key)})`;
+    if (value instanceof ColorFunction) return this.#functionToString(value);
+    if (value instanceof ColorModes) {
+      const entries = Object.entries(value.values).map(([mode, modeValue]) => {
+        const name = /^[A-Za-z_$][\w$]*$/.test(mode) ? mode : this.#quote(mode);
+        return `${name}: ${this.#valueToString(modeValue)}`;
+      });
+      return `modes({ ${entries.join(', ')} })`;
+    }
+    return this.#quote(value);
+  }
+
+  #functionToString(value: ColorFunction): string {
+    const fnName = this.#getFunctionName(value.fn) || value.fn.name.replace('bound ', '');
+    const args = value.args.map((a) => this.#argToString(a)).join(', ');
+    return `${fnName}(${args})`;
+  }
+
+  #argToString(arg: any): string {
+    if (arg instanceof ColorFunction) return this.#functionToString(arg);
+    if (Array.isArray(arg)) return `[${arg.map((item) => this.#argToString(item)).join(', ')}]`;
+    if (arg === null) return 'null';
+    if (typeof arg === 'string') return this.#quote(arg);
+    return String(arg);
+  }
+
+  #quote(text: string): string {
+    return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
   }
 
   #normalizeColor(color: string): string {
     const parsedColor = parse(color);
-    return parsedColor ? formatHex(parsedColor) : '#00000000';
+    return parsedColor ? formatColor(parsedColor, this.#output) : '#00000000';
+  }
+
+  get outputFormat(): OutputFormat {
+    return { ...this.#output };
+  }
+
+  /**
+   * Changes the color space and precision of resolved values, re-resolving every cached key.
+   * Use a wide-gamut space such as `oklch` or `p3` to avoid clipping Display-P3/Rec2020 inputs to sRGB.
+   * @param output The output color space and/or precision to apply.
+   */
+  setOutputFormat(output: Partial<OutputFormat>): void {
+    this.#output = this.#validateOutputFormat({ ...this.#output, ...output });
+    this.#refreshResolved();
+  }
+
+  /**
+   * The gamut resolved values are checked against. Defaults to the gamut of the output space
+   * (none for unbounded spaces such as `oklch`).
+   */
+  get gamutTarget(): GamutSpace | undefined {
+    return this.#gamutTarget ?? gamutOf(this.#output.space);
+  }
+
+  /**
+   * Sets the gamut that resolved values are checked against. Pass undefined to follow the output space again.
+   * Keys outside it are reported through the log callback (once until they fit again) and by `getOutOfGamut()`.
+   */
+  setGamutTarget(gamut: GamutSpace | undefined): void {
+    if (gamut !== undefined && !isGamutSpace(gamut)) {
+      throw new PaletteError(`Unknown gamut "${gamut}". Use 'srgb', 'p3' or 'rec2020'.`);
+    }
+    this.#gamutTarget = gamut;
+    this.#gamutWarnings.clear();
+    for (const [key, rawValue] of this.#unclipped) this.#checkGamut(key, rawValue, this.#resolved.get(key)!);
+  }
+
+  /**
+   * Lists the resolved keys whose unclipped value is outside a gamut.
+   * @param gamut The gamut to check against. Defaults to the gamut target, or sRGB if there is none.
+   */
+  getOutOfGamut(gamut: GamutSpace = this.gamutTarget ?? 'srgb'): OutOfGamutColor[] {
+    const outOfGamut: OutOfGamutColor[] = [];
+    for (const [key, value] of this.#unclipped) {
+      const parsed = parse(value);
+      if (!parsed || isInGamut(parsed, gamut)) continue;
+      outOfGamut.push({ key, value, resolved: this.#resolved.get(key)!, gamut });
+    }
+    return outOfGamut;
+  }
+
+  #validateOutputFormat(output: Partial<OutputFormat>): OutputFormat {
+    const merged = { ...DEFAULT_OUTPUT_FORMAT, ...output };
+    if (!isOutputColorSpace(merged.space)) {
+      throw new PaletteError(`Unsupported output color space: "${merged.space}".`);
+    }
+    if (!Number.isInteger(merged.precision) || merged.precision < 0) {
+      throw new PaletteError(`Output precision must be a non-negative integer, got ${merged.precision}.`);
+    }
+    return merged;
+  }
+
+  /**
+   * Adds a listener for a router event.
+   * @returns A function that removes the listener.
+   */
+  on<E extends ColorRouterEventName>(
+    event: E,
+    callback: ColorRouterListener<E>,
+    options: ListenerOptions = {},
+  ): Unsubscribe {
+    this.#eventEmitter.addEventListener(event, callback as EventListener, { once: options.once });
+    return () => this.off(event, callback);
   }
 
-  on(event: string, callback: EventListener): void {
-    this.#eventEmitter.addEventListener(event, callback);
+  off<E extends ColorRouterEventName>(event: E, callback: ColorRouterListener<E>): void {
+    this.#eventEmitter.removeEventListener(event, callback as EventListener);
   }
 
-  watch(key: string, callback: (newValue: string, oldValue: string | undefined) => void): void {
-    this.on(`watch:${key}`, (e) => {
-      const event = e as CustomEvent<{ newValue: string; oldValue: string | undefined }>;
-      callback(event.detail.newValue, event.detail.oldValue);
+  /**
+   * Calls `callback` whenever a key's resolved value changes.
+   * @param pattern A key, or a wildcard such as `'brand.*'` matching every key of a palette or below a sub-path.
+   * @returns A function that stops watching.
+   */
+  watch(pattern: WatchPattern<S>, callback: WatchCallback, options: ListenerOptions = {}): Unsubscribe {
+    if (!pattern.endsWith('*')) {
+      return this.on(
+        `watch:${pattern}`,
+        (event) => callback(event.detail.newValue, event.detail.oldValue, pattern),
+        options,
+      );
+    }
+    if (!pattern.endsWith('.*') || pattern.length < 3) {
+      throw new PaletteError(`Invalid watch pattern "${pattern}". Wildcards must have the form "palette.*".`);
+    }
+
+    const prefix = pattern.slice(0, -1);
+    const unsubscribe = this.on('change', (event) => {
+      const matching = event.detail.filter(({ key }) => key.startsWith(prefix));
+      if (matching.length === 0) return;
+      if (options.once) unsubscribe();
+      for (const { key, newValue, oldValue } of options.once ? matching.slice(0, 1) : matching) {
+        callback(newValue, oldValue, key);
+      }
     });
+    return unsubscribe;
   }
 
-  #emit(key: string, newValue: string, oldValue: string | undefined): void {
+  /**
+   * Calls `callback` whenever any key of a palette (including inherited keys) changes. Same as `watch('<palette>.*')`.
+   */
+  watchPalette(paletteName: SchemaPalette<S>, callback: WatchCallback, options: ListenerOptions = {}): Unsubscribe {
+    return this.watch(`${paletteName}.*` as WatchPattern<S>, callback, options);
+  }
+
+  #emit(key: string, newValue: string | undefined, oldValue: string | undefined): void {
     this.#eventEmitter.dispatchEvent(
-      new CustomEvent(`watch:${key}`, {
+      new CustomEvent<WatchEventDetail>(`watch:${key}`, {
         detail: { newValue, oldValue },
       }),
     );
   }
 
-  ref(key: string): ColorReference {
+  ref(key: SchemaKey<S>): ColorReference {
     return new ColorReference(key);
   }
 
+  modes(values: Record<string, ModeDefinition>): ColorModes {
+    return new ColorModes({ ...values });
+  }
+
   getAllPalettes = (): Array<{ name: string; config: PaletteConfig }> => {
     return this.#paletteManager.getAllPalettes();
   };
 
-  public getDefinitionType(key: string): 'function' | 'reference' | 'value' {
+  public getDefinitionType(key: string): 'function' | 'reference' | 'modes' | 'value' {
     try {
       const definition = this.#getDefinition(key);
       if (definition instanceof ColorFunction) {
@@ -406,6 +1458,9 @@ export class ColorRouter {
       if (definition instanceof ColorReference) {
         return 'reference';
       }
+      if (definition instanceof ColorModes) {
+        return 'modes';
+      }
       return 'value';
     } catch (e) {
       if (this.#logCallback)
@@ -415,14 +1470,19 @@ export class ColorRouter {
   }
 
   public getVisualDependencies(key: string): Set<string> {
-    const definition = this.#getDefinition(key);
+    return this.#getVisualDependencies(this.#getDefinition(key));
+  }
 
+  #getVisualDependencies(definition: ColorDefinition): Set<string> {
     if (definition instanceof ColorFunction) {
       return new Set(definition.visualDependencies);
     }
     if (definition instanceof ColorReference) {
       return new Set([definition.key]);
     }
+    if (definition instanceof ColorModes) {
+      return new Set(Object.values(definition.values).flatMap((value) => [...this.#getVisualDependencies(value)]));
+    }
     return new Set<string>();
   }
 
@@ -431,24 +1491,14 @@ export class ColorRouter {
   }
 
   getRawValue(value: ColorDefinition): string {
-    if (value instanceof ColorReference) return `ref('${value.key}')`;
-    if (value instanceof ColorFunction) {
-      const fnName =
-        [...this.#customFunctions.entries()].find(([_, fn]) => fn === value.fn)?.[0] ||
-        value.fn.name.replace('bound ', '');
-      const args = value.args
-        .map((a) => {
-          if (Array.isArray(a)) {
-            return `[${a.map((item) => (typeof item === 'string' ? `'${item}'` : item)).join(', ')}]`;
-          }
-          return typeof a === 'string' ? `'${a}'` : a;
-        })
-        .join(', ');
-      return `${fnName}(${args})`;
-    }
+    if (typeof value !== 'string') return this.#valueToString(value);
     return value;
   }
 
+  parse(expression: string): ColorDefinition {
+    return new ExpressionParser(this).parse(expression);
+  }
+
   get mode(): 'auto' | 'batch' {
     return this.#mode;
   }
@@ -462,11 +1512,11 @@ export class ColorRouter {
   }
 
   getDependencies(key: string): string[] {
-    return this.#dependencyGraph.getPrerequisitesFor(key);
+    return this.#dependencyGraph.getPrerequisitesFor(key).filter((node) => !DependencyGraph.isPaletteNode(node));
   }
 
   getDependents(key: string): string[] {
-    return this.#dependencyGraph.getDependentsOf(key);
+    return this.#dependencyGraph.getDependentsOf(key).filter((node) => !DependencyGraph.isPaletteNode(node));
   }
 
   getDependencyGraph(): DependencyGraph {
@@ -505,18 +1555,198 @@ export class ColorRouter {
     return Array.from(externalDeps);
   }
 
-  resolvePalette(paletteName: string): Record<string, string> {
+  resolvePalette(paletteName: SchemaPalette<S>): Record<string, string> {
     const keys = this.#paletteManager.getAllKeysForPalette(paletteName);
     const resolved: Record<string, string> = {};
 
     for (const key of keys) {
-      const shortKey = key.split('.').slice(1).join('.');
-      resolved[shortKey] = this.resolve(key);
+      resolved[splitKey(key)[1]] = this.#resolve(key);
     }
 
     return resolved;
   }
 
+  toJSON(): SerializedColorRouter {
+    const palettes = this.#paletteManager.getAllPalettes().map(({ name, config }) => {
+      const overrides: Record<string, SerializedColorDefinition> = {};
+      for (const [key, value] of Object.entries(config.overrides || {})) {
+        overrides[key] = this.#serializeDefinition(value);
+      }
+      return {
+        name,
+        ...(config.extends ? { extends: config.extends } : {}),
+        ...(config.description ? { description: config.description } : {}),
+        ...(config.contract ? { contract: config.contract } : {}),
+        ...(config.modes ? { modes: [...config.modes] } : {}),
+        ...(Object.keys(overrides).length > 0 ? { overrides } : {}),
+      };
+    });
+
+    const definitions: Record<string, SerializedColorDefinition> = {};
+    for (const [key, value] of this.#definitions) {
+      definitions[key] = this.#serializeDefinition(value);
+    }
+
+    const fallbacks: Record<string, SerializedColorDefinition> = {};
+    for (const [key, value] of this.#fallbacks) {
+      fallbacks[key] = this.#serializeDefinition(value);
+    }
+
+    const metadata: Record<string, ColorMetadata> = {};
+    for (const [key, value] of this.#metadata) {
+      metadata[key] = value;
+    }
+
+    return {
+      version: 1,
+      mode: this.#mode,
+      ...(this.#activeMode !== undefined ? { activeMode: this.#activeMode } : {}),
+      output: { ...this.#output },
+      palettes,
+      definitions,
+      ...(Object.keys(fallbacks).length > 0 ? { fallbacks } : {}),
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+      ...(this.#contrastPairs.size > 0 ? { contrastPairs: this.getContrastPairs() } : {}),
+    };
+  }
+
+  static fromJSON(
+    data: SerializedColorRouter | string,
+    options: { functions?: Record<string, RegisteredFunction>; contracts?: Record<string, PaletteContract> } = {},
+  ): ColorRouter {
+    const state: SerializedColorRouter = typeof data === 'string' ? JSON.parse(data) : data;
+    if (!state || state.version !== 1) {
+      throw new PaletteError(`Unsupported serialized router version: ${state?.version}.`);
+    }
+
+    const router = new ColorRouter({ mode: 'batch', output: state.output });
+    for (const [name, { fn, isPaletteAware }] of Object.entries(options.functions || {})) {
+      router.registerFunction(name, fn, { isPaletteAware });
+    }
+    for (const [name, contract] of Object.entries(options.contracts || {})) {
+      router.defineContract(name, contract);
+    }
+
+    // Palettes are stored in creation order, so base palettes always precede the ones extending them.
+    for (const palette of state.palettes) {
+      const overrides: Record<string, ColorDefinition> = {};
+      for (const [key, value] of Object.entries(palette.overrides || {})) {
+        overrides[key] = router.#deserializeDefinition(value);
+      }
+      router.createPalette(palette.name, {
+        extends: palette.extends,
+        overrides,
+        description: palette.description,
+        contract: palette.contract,
+        modes: palette.modes,
+      });
+    }
+
+    for (const [key, value] of Object.entries(state.definitions)) {
+      const fallback = state.fallbacks?.[key];
+      router.define(key, router.#deserializeDefinition(value), {
+        ...state.metadata?.[key],
+        ...(fallback ? { fallback: router.#deserializeDefinition(fallback) } : {}),
+      });
+    }
+    state.contrastPairs?.forEach((pair) => router.defineContrastPair(pair));
+
+    router.flush();
+    router.mode = state.mode;
+    if (state.activeMode !== undefined) router.setActiveMode(state.activeMode);
+    return router;
+  }
+
+  /**
+   * Creates a router from a declarative config of palettes and (optionally nested) colors.
+   * String leaves are parsed with `parse()`, so they can be plain colors or expressions such as
+   * `'lighten(ref("brand.primary"), 0.1)'`. The router's schema is inferred from the config,
+   * so its keys autocomplete and unknown keys are rejected at compile time.
+   * @param config Palette names mapped to their color trees.
+   * @param options Router options, as for the constructor.
+   */
+  static fromConfig<C extends ColorConfig>(
+    config: C,
+    options: { mode?: 'auto' | 'batch'; output?: Partial<OutputFormat> } = {},
+  ): ColorRouter<InferSchema<C>> {
+    const router = new ColorRouter<InferSchema<C>>({ ...options, mode: 'batch' });
+    const untyped: ColorRouterView = router; // The keys are only known to match the schema at runtime
+
+    const defineTree = (prefix: string, node: ColorConfigNode): void => {
+      for (const [name, value] of Object.entries(node)) {
+        const key = `${prefix}.${name}`;
+        if (typeof value === 'string') {
+          untyped.define(key, router.parse(value));
+        } else if (value instanceof ColorReference || value instanceof ColorFunction || value instanceof ColorModes) {
+          untyped.define(key, value);
+        } else {
+          defineTree(key, value);
+        }
+      }
+    };
+
+    for (const paletteName of Object.keys(config)) router.createPalette(paletteName);
+    for (const [paletteName, colors] of Object.entries(config)) defineTree(paletteName, colors);
+
+    router.flush();
+    router.mode = options.mode || 'auto';
+    return router;
+  }
+
+  #serializeDefinition(value: ColorDefinition): SerializedColorDefinition {
+    if (value instanceof ColorReference) return { type: 'reference', key: value.key };
+    if (value instanceof ColorModes) {
+      const values: Record<string, SerializedColorDefinition> = {};
+      for (const [mode, modeValue] of Object.entries(value.values)) values[mode] = this.#serializeDefinition(modeValue);
+      return { type: 'modes', values };
+    }
+    if (value instanceof ColorFunction) {
+      const name = this.#getFunctionName(value.fn);
+      if (!name) {
+        throw new PaletteError(`Cannot serialize function "${value.fn.name}": it is not registered on this router.`);
+      }
+      return {
+        type: 'function',
+        name,
+        args: value.args.map((arg) => (arg instanceof ColorFunction ? this.#serializeDefinition(arg) : arg)),
+      };
+    }
+    return { type: 'value', value };
+  }
+
+  #deserializeDefinition(value: SerializedColorDefinition): ColorDefinition {
+    switch (value.type) {
+      case 'reference':
+        return new ColorReference(value.key);
+      case 'function':
+        return this.func(
+          value.name,
+          ...value.args.map((arg) =>
+            arg && typeof arg === 'object' && !Array.isArray(arg) && arg.type === 'function'
+              ? this.#deserializeDefinition(arg)
+              : arg,
+          ),
+        );
+      case 'value':
+        return value.value;
+      case 'modes': {
+        const values: Record<string, ModeDefinition> = {};
+        for (const [mode, modeValue] of Object.entries(value.values)) {
+          const definition = this.#deserializeDefinition(modeValue);
+          if (definition instanceof ColorModes) throw new PaletteError(`Per-mode values cannot be nested.`);
+          values[mode] = definition;
+        }
+        return new ColorModes(values);
+      }
+      default:
+        throw new PaletteError(`Unknown serialized definition type: "${(value as any).type}".`);
+    }
+  }
+
+  #getFunctionName(fn: (...args: any[]) => string): string | undefined {
+    return [...this.#customFunctions.entries()].find(([_, registered]) => registered === fn)?.[0];
+  }
+
   createRenderer(format?: 'css-variables' | 'json'): any {
     if (!this.#ColorRenderer) {
       throw new Error('ColorRenderer class not injected. Please call setColorRenderer() first.');
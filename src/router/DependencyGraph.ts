@@ -1,4 +1,4 @@
-import { ColorDefinition, ColorReference, ColorFunction, LogCallback } from '../types';
+import { ColorDefinition, ColorReference, ColorFunction, ColorModes, LogCallback } from '../types';
 import { CircularDependencyError } from './errors';
 
 /**
@@ -7,6 +7,23 @@ import { CircularDependencyError } from './errors';
  * and determining the correct evaluation order for color resolution.
  */
 export class DependencyGraph {
+  /**
+   * Gets the node that stands for the whole key set of a palette. It depends on every key the palette holds
+   * (including inherited ones), so palette-aware functions that depend on it re-run when keys are added or removed.
+   * @param paletteName The name of the palette.
+   */
+  public static paletteNode(paletteName: string): string {
+    return `palette:${paletteName}`;
+  }
+
+  /**
+   * Checks whether a node is a palette node rather than a color key.
+   * @param node The node to check.
+   */
+  public static isPaletteNode(node: string): boolean {
+    return node.startsWith('palette:') && !node.includes('.');
+  }
+
   private readonly nodeToPrerequisites = new Map<string, Set<string>>();
   private readonly nodeToDependents = new Map<string, Set<string>>();
   private logCallback?: LogCallback;
@@ -34,7 +51,13 @@ export class DependencyGraph {
    */
   private getPrerequisitesFromValue(value: ColorDefinition): string[] {
     if (value instanceof ColorReference) return [value.key];
-    if (value instanceof ColorFunction) return value.dependencies;
+    if (value instanceof ColorFunction) return [...value.dependencies];
+    if (value instanceof ColorModes) {
+      const prerequisites = Object.values(value.values).flatMap((modeValue) =>
+        this.getPrerequisitesFromValue(modeValue),
+      );
+      return Array.from(new Set(prerequisites));
+    }
     return [];
   }
 
@@ -42,8 +65,20 @@ export class DependencyGraph {
    * Updates the dependency edges for a given color key based on its new definition.
    * @param key The color key being updated.
    * @param value The new color definition.
+   * @param fallback An optional fallback definition whose prerequisites are tracked as well.
    */
-  public updateEdges(key: string, value: ColorDefinition): void {
+  public updateEdges(key: string, value: ColorDefinition, fallback?: ColorDefinition): void {
+    const newPrerequisites = this.getPrerequisitesFromValue(value);
+    if (fallback !== undefined) newPrerequisites.push(...this.getPrerequisitesFromValue(fallback));
+    this.setPrerequisites(key, newPrerequisites);
+  }
+
+  /**
+   * Replaces the prerequisites of a node.
+   * @param key The node whose edges are replaced.
+   * @param newPrerequisites The nodes it now depends on.
+   */
+  public setPrerequisites(key: string, newPrerequisites: Iterable<string>): void {
     const oldPrerequisites = this.nodeToPrerequisites.get(key);
     if (oldPrerequisites) {
       for (const prereq of oldPrerequisites) {
@@ -52,7 +87,6 @@ export class DependencyGraph {
     }
     this.nodeToPrerequisites.set(key, new Set());
 
-    const newPrerequisites = this.getPrerequisitesFromValue(value);
     for (const prereq of newPrerequisites) {
       this.nodeToPrerequisites.get(key)!.add(prereq);
       if (!this.nodeToDependents.has(prereq)) {
@@ -62,6 +96,36 @@ export class DependencyGraph {
     }
   }
 
+  /**
+   * Captures the current edges so they can be restored later.
+   * @returns A map of every node to a copy of its prerequisites.
+   */
+  public snapshot(): Map<string, string[]> {
+    const snapshot = new Map<string, string[]>();
+    for (const [node, prerequisites] of this.nodeToPrerequisites) {
+      snapshot.set(node, Array.from(prerequisites));
+    }
+    return snapshot;
+  }
+
+  /**
+   * Replaces all edges with a previously captured snapshot.
+   * @param snapshot A snapshot created by `snapshot()`.
+   */
+  public restore(snapshot: Map<string, string[]>): void {
+    this.nodeToPrerequisites.clear();
+    this.nodeToDependents.clear();
+    for (const [node, prerequisites] of snapshot) {
+      this.nodeToPrerequisites.set(node, new Set(prerequisites));
+      for (const prereq of prerequisites) {
+        if (!this.nodeToDependents.has(prereq)) {
+          this.nodeToDependents.set(prereq, new Set());
+        }
+        this.nodeToDependents.get(prereq)!.add(node);
+      }
+    }
+  }
+
   /**
    * Removes a node (color key) and its associated edges from the dependency graph.
    * @param key The color key to remove.
@@ -176,7 +240,7 @@ export class DependencyGraph {
   }
 
   // Graph terminology aliases for better API
-  
+
   /**
    * Alias for getPrerequisitesFor() using graph terminology.
    * Gets the incoming edges (prerequisites) for a node.
@@ -200,9 +264,7 @@ export class DependencyGraph {
    * @returns The degree of the node.
    */
   public getNodeDegree(node: string, incoming: boolean = true): number {
-    return incoming 
-      ? (this.nodeToPrerequisites.get(node)?.size || 0)
-      : (this.nodeToDependents.get(node)?.size || 0);
+    return incoming ? this.nodeToPrerequisites.get(node)?.size || 0 : this.nodeToDependents.get(node)?.size || 0;
   }
 
   /**
@@ -220,7 +282,7 @@ export class DependencyGraph {
       visited.add(node);
       result.push(node);
 
-      const neighbors = visitPrerequisites 
+      const neighbors = visitPrerequisites
         ? this.nodeToPrerequisites.get(node) || new Set()
         : this.nodeToDependents.get(node) || new Set();
 
@@ -247,11 +309,11 @@ export class DependencyGraph {
     while (queue.length > 0) {
       const node = queue.shift()!;
       if (visited.has(node)) continue;
-      
+
       visited.add(node);
       result.push(node);
 
-      const neighbors = visitPrerequisites 
+      const neighbors = visitPrerequisites
         ? this.nodeToPrerequisites.get(node) || new Set()
         : this.nodeToDependents.get(node) || new Set();
 
@@ -280,11 +342,11 @@ export class DependencyGraph {
 
     while (queue.length > 0) {
       const { node, path } = queue.shift()!;
-      
+
       if (visited.has(node)) continue;
       visited.add(node);
 
-      const neighbors = traverseUpstream 
+      const neighbors = traverseUpstream
         ? this.nodeToPrerequisites.get(node) || new Set()
         : this.nodeToDependents.get(node) || new Set();
 
@@ -292,7 +354,7 @@ export class DependencyGraph {
         if (neighbor === toNode) {
           return [...path, neighbor];
         }
-        
+
         if (!visited.has(neighbor)) {
           queue.push({ node: neighbor, path: [...path, neighbor] });
         }
@@ -347,45 +409,41 @@ export class DependencyGraph {
   }
 
   /**
-   * Gets all nodes in the graph.
+   * Gets all color keys in the graph. Palette nodes are internal and left out.
    * @returns An array of all node keys.
    */
   public getAllNodes(): string[] {
     const allNodes = new Set<string>();
-    
+
     // Add all nodes that have prerequisites
     for (const node of this.nodeToPrerequisites.keys()) {
       allNodes.add(node);
     }
-    
+
     // Add all nodes that are prerequisites of others
     for (const prerequisites of this.nodeToPrerequisites.values()) {
       for (const prereq of prerequisites) {
         allNodes.add(prereq);
       }
     }
-    
-    return Array.from(allNodes);
+
+    return Array.from(allNodes).filter((node) => !DependencyGraph.isPaletteNode(node));
   }
 
   /**
-   * Gets the graph as an adjacency list representation.
+   * Gets the graph as an adjacency list representation. Palette nodes are internal and left out.
    * @param showPrerequisites If true, shows prerequisites; if false, shows dependents.
    * @returns A record where keys are nodes and values are arrays of connected nodes.
    */
   public getAdjacencyList(showPrerequisites: boolean = true): Record<string, string[]> {
     const adjacencyList: Record<string, string[]> = {};
-    
-    if (showPrerequisites) {
-      for (const [node, prerequisites] of this.nodeToPrerequisites.entries()) {
-        adjacencyList[node] = Array.from(prerequisites);
-      }
-    } else {
-      for (const [node, dependents] of this.nodeToDependents.entries()) {
-        adjacencyList[node] = Array.from(dependents);
-      }
+    const edges = showPrerequisites ? this.nodeToPrerequisites : this.nodeToDependents;
+
+    for (const [node, connected] of edges.entries()) {
+      if (DependencyGraph.isPaletteNode(node)) continue;
+      adjacencyList[node] = Array.from(connected).filter((other) => !DependencyGraph.isPaletteNode(other));
     }
-    
+
     return adjacencyList;
   }
 }
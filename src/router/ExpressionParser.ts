@@ -0,0 +1,277 @@
+import { parse } from 'culori';
+import { ColorDefinition, ColorReference, ColorFunction, ColorModes, ColorRouterView, ModeDefinition } from '../types';
+import { ExpressionSyntaxError } from './errors';
+
+type TokenType = 'identifier' | 'string' | 'number' | 'punctuation' | 'end';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  column: number;
+}
+
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', ',', ':']);
+const LITERALS: Record<string, null | boolean> = { null: null, true: true, false: false };
+
+/**
+ * Parses token expressions such as `colorMix(ref("brand.primary"), "#fff", 0.2, "oklch")` into color definitions.
+ *
+ * Grammar:
+ * ```
+ * expression := modes | definition | <any CSS color>
+ * modes      := "modes" "(" "{" [ name ":" definition { "," name ":" definition } ] "}" ")"
+ * definition := call | string
+ * call       := identifier "(" [ value { "," value } ] ")"
+ * value      := call | string | number | array | "null" | "true" | "false"
+ * array      := "[" [ value { "," value } ] "]"
+ * ```
+ * `ref(key)` yields a `ColorReference` at the top level and the plain key when used as an argument,
+ * which is how function arguments reference other colors. Any other call must name a function
+ * registered on the router (built-in or via `registerFunction`); `func(name, ...args)` is accepted as well.
+ * `modes({ light: "#fff", dark: ref("base.ink") })` yields per-mode values and may only be the whole expression.
+ */
+export class ExpressionParser {
+  private readonly colorRouter: ColorRouterView;
+  private tokens: Token[] = [];
+  private position = 0;
+
+  /**
+   * Creates an instance of ExpressionParser.
+   * @param colorRouter The ColorRouter used to look up registered functions and create definitions.
+   */
+  constructor(colorRouter: ColorRouterView) {
+    this.colorRouter = colorRouter;
+  }
+
+  /**
+   * Parses an expression string into a color definition.
+   * @param input The expression to parse.
+   * @returns A `ColorReference`, a `ColorFunction`, or a plain color value.
+   * @throws {ExpressionSyntaxError} If the expression is malformed or uses an unknown function.
+   */
+  public parse(input: string): ColorDefinition {
+    const source = input.trim();
+    if (source === '') throw new ExpressionSyntaxError('Expected an expression', 1);
+    if (parse(source)) return source;
+
+    this.tokens = this.tokenize(input);
+    this.position = 0;
+
+    const token = this.peek();
+    const result: ColorDefinition =
+      token.type === 'identifier' && token.value === 'modes' ? this.parseModes() : this.parseDefinition();
+
+    const trailing = this.peek();
+    if (trailing.type !== 'end') {
+      throw new ExpressionSyntaxError(`Unexpected "${trailing.value}" after expression`, trailing.column);
+    }
+    return result;
+  }
+
+  /**
+   * Splits the input into tokens, recording the 1-based column of each.
+   * @param input The raw expression.
+   * @returns The list of tokens, terminated by an `end` token.
+   */
+  private tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+      const char = input[i];
+      const column = i + 1;
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (PUNCTUATION.has(char)) {
+        tokens.push({ type: 'punctuation', value: char, column });
+        i++;
+      } else if (char === '"' || char === "'") {
+        let value = '';
+        i++;
+        while (i < input.length && input[i] !== char) {
+          if (input[i] === '\\' && i + 1 < input.length) i++;
+          value += input[i];
+          i++;
+        }
+        if (i >= input.length) throw new ExpressionSyntaxError('Unterminated string', column);
+        i++;
+        tokens.push({ type: 'string', value, column });
+      } else if (/[-+.\d]/.test(char)) {
+        const match = input.slice(i).match(/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i);
+        if (!match) throw new ExpressionSyntaxError(`Unexpected character "${char}"`, column);
+        tokens.push({ type: 'number', value: match[0], column });
+        i += match[0].length;
+      } else if (/[A-Za-z_$]/.test(char)) {
+        const match = input.slice(i).match(/^[A-Za-z_$][\w$]*/)!;
+        tokens.push({ type: 'identifier', value: match[0], column });
+        i += match[0].length;
+      } else {
+        throw new ExpressionSyntaxError(`Unexpected character "${char}"`, column);
+      }
+    }
+
+    tokens.push({ type: 'end', value: 'end of input', column: input.length + 1 });
+    return tokens;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private isPunctuation(token: Token | undefined, value: string): boolean {
+    return token?.type === 'punctuation' && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (!this.isPunctuation(token, value)) {
+      throw new ExpressionSyntaxError(`Expected "${value}" but found "${token.value}"`, token.column);
+    }
+    return token;
+  }
+
+  /**
+   * Parses a color, reference or function call that stands on its own rather than as an argument.
+   */
+  private parseDefinition(): ModeDefinition {
+    const token = this.peek();
+    if (token.type === 'identifier') {
+      if (token.value === 'modes') {
+        throw new ExpressionSyntaxError('modes() can only be used as the whole expression', token.column);
+      }
+      return this.parseCall(true) as ModeDefinition;
+    }
+    if (token.type === 'string') {
+      this.next();
+      if (!parse(token.value)) {
+        throw new ExpressionSyntaxError(`Invalid color value "${token.value}"`, token.column);
+      }
+      return token.value;
+    }
+    throw new ExpressionSyntaxError(
+      `Expected a color, reference or function call but found "${token.value}"`,
+      token.column,
+    );
+  }
+
+  /**
+   * Parses `modes({ name: definition, ... })` into per-mode values.
+   */
+  private parseModes(): ColorModes {
+    this.next();
+    this.expect('(');
+    this.expect('{');
+
+    const values: Record<string, ModeDefinition> = {};
+    while (!this.isPunctuation(this.peek(), '}')) {
+      const nameToken = this.next();
+      if (nameToken.type !== 'identifier' && nameToken.type !== 'string') {
+        throw new ExpressionSyntaxError(`Expected a mode name but found "${nameToken.value}"`, nameToken.column);
+      }
+      if (nameToken.value in values) {
+        throw new ExpressionSyntaxError(`Duplicate mode "${nameToken.value}"`, nameToken.column);
+      }
+      this.expect(':');
+      values[nameToken.value] = this.parseDefinition();
+
+      if (!this.isPunctuation(this.peek(), ',')) break;
+      this.next();
+    }
+
+    this.expect('}');
+    this.expect(')');
+    return new ColorModes(values);
+  }
+
+  /**
+   * Parses a single argument value.
+   */
+  private parseValue(): any {
+    const token = this.peek();
+    switch (token.type) {
+      case 'string':
+        this.next();
+        return token.value;
+      case 'number':
+        this.next();
+        return parseFloat(token.value);
+      case 'identifier':
+        if (token.value in LITERALS && !this.isPunctuation(this.tokens[this.position + 1], '(')) {
+          this.next();
+          return LITERALS[token.value];
+        }
+        return this.parseCall(false);
+    }
+    if (this.isPunctuation(token, '[')) return this.parseArray();
+    if (this.isPunctuation(token, '{')) {
+      throw new ExpressionSyntaxError(
+        'Object literals are not supported; pass channel modifications as an array',
+        token.column,
+      );
+    }
+    throw new ExpressionSyntaxError(`Unexpected "${token.value}"`, token.column);
+  }
+
+  private parseArray(): any[] {
+    this.expect('[');
+    const items = this.parseList(']');
+    this.expect(']');
+    return items;
+  }
+
+  private parseList(closing: string): any[] {
+    const items: any[] = [];
+    if (this.isPunctuation(this.peek(), closing)) return items;
+
+    items.push(this.parseValue());
+    while (this.isPunctuation(this.peek(), ',')) {
+      this.next();
+      items.push(this.parseValue());
+    }
+    return items;
+  }
+
+  /**
+   * Parses a function call. References used as arguments collapse to their key.
+   * @param topLevel Whether the call is the whole expression rather than an argument.
+   */
+  private parseCall(topLevel: boolean): ColorReference | ColorFunction | string {
+    const nameToken = this.next();
+    this.expect('(');
+    const args = this.parseList(')');
+    this.expect(')');
+
+    const name = nameToken.value;
+    if (name === 'ref') {
+      if (args.length !== 1 || typeof args[0] !== 'string') {
+        throw new ExpressionSyntaxError('ref() expects a single color key string', nameToken.column);
+      }
+      return topLevel ? this.colorRouter.ref(args[0]) : args[0];
+    }
+
+    if (name === 'func') {
+      const [functionName, ...functionArgs] = args;
+      if (typeof functionName !== 'string') {
+        throw new ExpressionSyntaxError(
+          'func() expects a function name string as its first argument',
+          nameToken.column,
+        );
+      }
+      return this.createFunction(functionName, functionArgs, nameToken.column);
+    }
+
+    return this.createFunction(name, args, nameToken.column);
+  }
+
+  private createFunction(name: string, args: any[], column: number): ColorFunction {
+    if (!this.colorRouter.getCustomFunctions().has(name)) {
+      throw new ExpressionSyntaxError(`Unknown function "${name}"`, column);
+    }
+    return this.colorRouter.func(name, ...args);
+  }
+}
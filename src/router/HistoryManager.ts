@@ -0,0 +1,223 @@
+import { PaletteError } from './errors';
+
+/**
+ * A reversible operation recorded by the HistoryManager.
+ */
+export interface HistoryCommand {
+  label: string;
+  undo(): void;
+  redo(): void;
+}
+
+/**
+ * Keeps undo/redo stacks of reversible commands, with named checkpoints and a size limit.
+ * When the limit is exceeded, the oldest commands are dropped.
+ */
+export class HistoryManager {
+  private undoStack: HistoryCommand[] = [];
+  private redoStack: HistoryCommand[] = [];
+  private checkpoints = new Map<string, number>();
+  private trimmed = 0;
+  private replaying = false;
+  private readonly limit: number;
+
+  /**
+   * Creates an instance of HistoryManager.
+   * @param limit The maximum number of commands kept for undo. Defaults to 100.
+   */
+  constructor(limit = 100) {
+    if (limit < 1) throw new PaletteError(`History limit must be at least 1, got ${limit}.`);
+    this.limit = limit;
+  }
+
+  /**
+   * Records a command that has just been applied. Clears the redo stack.
+   * @param command The command to record.
+   */
+  public push(command: HistoryCommand): void {
+    if (this.replaying) return;
+    this.undoStack.push(command);
+    this.redoStack = [];
+
+    for (const [name, position] of this.checkpoints) {
+      if (position >= this.position) this.checkpoints.delete(name);
+    }
+
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+      this.trimmed++;
+    }
+  }
+
+  /**
+   * Reverts the most recent command.
+   * @returns The label of the undone command, or undefined if there was nothing to undo.
+   */
+  public undo(): string | undefined {
+    const command = this.undoStack.pop();
+    if (!command) return undefined;
+    this.replay(() => command.undo());
+    this.redoStack.push(command);
+    return command.label;
+  }
+
+  /**
+   * Re-applies the most recently undone command.
+   * @returns The label of the redone command, or undefined if there was nothing to redo.
+   */
+  public redo(): string | undefined {
+    const command = this.redoStack.pop();
+    if (!command) return undefined;
+    this.replay(() => command.redo());
+    this.undoStack.push(command);
+    return command.label;
+  }
+
+  /**
+   * Names the current position in the history so it can be returned to later.
+   * @param name The checkpoint name. An existing checkpoint with the same name is replaced.
+   */
+  public checkpoint(name: string): void {
+    this.checkpoints.set(name, this.position);
+  }
+
+  /**
+   * Undoes or redoes commands until the history is back at a named checkpoint.
+   * @param name The checkpoint name.
+   * @throws {PaletteError} If the checkpoint does not exist or has been trimmed by the size limit.
+   */
+  public restoreCheckpoint(name: string): void {
+    const target = this.checkpoints.get(name);
+    if (target === undefined) throw new PaletteError(`History checkpoint "${name}" does not exist.`);
+    if (target < this.trimmed) {
+      throw new PaletteError(`History checkpoint "${name}" is older than the history limit allows.`);
+    }
+
+    while (this.position > target) this.undo();
+    while (this.position < target && this.redoStack.length > 0) this.redo();
+  }
+
+  /**
+   * Lists the names of all checkpoints.
+   */
+  public getCheckpoints(): string[] {
+    return Array.from(this.checkpoints.keys());
+  }
+
+  /**
+   * Removes all commands and checkpoints.
+   */
+  public clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.checkpoints.clear();
+    this.trimmed = 0;
+  }
+
+  public get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  public get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Whether a command is currently being undone or redone. Changes made while replaying are not recorded.
+   */
+  public get isReplaying(): boolean {
+    return this.replaying;
+  }
+
+  private get position(): number {
+    return this.trimmed + this.undoStack.length;
+  }
+
+  private replay(action: () => void): void {
+    this.replaying = true;
+    try {
+      action();
+    } finally {
+      this.replaying = false;
+    }
+  }
+}
+
+/**
+ * The changes that turn one snapshot into another. Map and Set fields hold only the entries that differ
+ * (`undefined` or `false` marks a removed entry); any other field is present only if its value changed.
+ */
+export type SnapshotDiff<T> = {
+  [F in keyof T]?: T[F] extends Map<infer K, infer V>
+    ? Map<K, V | undefined>
+    : T[F] extends Set<infer K>
+      ? Map<K, boolean>
+      : T[F];
+};
+
+/**
+ * Compares two snapshots whose fields are Maps, Sets or plain values.
+ * @returns The changes that turn `from` into `to`.
+ */
+export function diffSnapshots<T extends object>(from: T, to: T): SnapshotDiff<T> {
+  const diff: Record<string, unknown> = {};
+  for (const field of Object.keys(to) as (keyof T & string)[]) {
+    const before = from[field];
+    const after = to[field];
+    if (after instanceof Map && before instanceof Map) {
+      const changes = new Map<unknown, unknown>();
+      after.forEach((value, key) => {
+        if (!before.has(key) || !isSameValue(before.get(key), value)) changes.set(key, value);
+      });
+      before.forEach((_, key) => {
+        if (!after.has(key)) changes.set(key, undefined);
+      });
+      if (changes.size > 0) diff[field] = changes;
+    } else if (after instanceof Set && before instanceof Set) {
+      const changes = new Map<unknown, boolean>();
+      after.forEach((key) => !before.has(key) && changes.set(key, true));
+      before.forEach((key) => !after.has(key) && changes.set(key, false));
+      if (changes.size > 0) diff[field] = changes;
+    } else if (!isSameValue(before, after)) {
+      diff[field] = after;
+    }
+  }
+  return diff as SnapshotDiff<T>;
+}
+
+/**
+ * Applies a diff created by `diffSnapshots` to a snapshot, changing it in place.
+ */
+export function applySnapshotDiff<T extends object>(snapshot: T, diff: SnapshotDiff<T>): T {
+  for (const field of Object.keys(diff) as (keyof T & string)[]) {
+    const target = snapshot[field];
+    const changes = diff[field];
+    if (target instanceof Map && changes instanceof Map) {
+      changes.forEach((value, key) => (value === undefined ? target.delete(key) : target.set(key, value)));
+    } else if (target instanceof Set && changes instanceof Map) {
+      changes.forEach((present, key) => (present ? target.add(key) : target.delete(key)));
+    } else {
+      snapshot[field] = changes as T[keyof T & string];
+    }
+  }
+  return snapshot;
+}
+
+/**
+ * Compares plain objects and arrays by their contents and everything else (including class instances) by identity.
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (!isPlainData(a) || !isPlainData(b) || Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => isSameValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+  );
+}
+
+function isPlainData(value: unknown): value is object {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === Array.prototype;
+}
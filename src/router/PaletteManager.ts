@@ -1,6 +1,14 @@
-import { PaletteConfig, ColorDefinition, LogCallback } from '../types';
+import {
+  PaletteConfig,
+  ColorDefinition,
+  ColorRouterView,
+  LogCallback,
+  PaletteContract,
+  ContractKey,
+  ContractReport,
+} from '../types';
 import { PaletteError, CircularDependencyError } from './errors';
-import { ColorRouter } from './ColorRouter';
+import { isWithinPath, splitKey } from './keys';
 
 /**
  * Manages color palettes, including creation, extension, and deletion.
@@ -8,9 +16,10 @@ import { ColorRouter } from './ColorRouter';
  */
 export class PaletteManager {
   private palettes = new Map<string, PaletteConfig>();
+  private contracts = new Map<string, PaletteContract>();
   private definitions: Map<string, ColorDefinition>;
   private logCallback?: LogCallback;
-  private colorRouter: ColorRouter;
+  private colorRouter: ColorRouterView;
 
   /**
    * Creates an instance of PaletteManager.
@@ -18,7 +27,7 @@ export class PaletteManager {
    * @param colorRouter An instance of ColorRouter.
    * @param logCallback An optional callback function for logging.
    */
-  constructor(definitions: Map<string, ColorDefinition>, colorRouter: ColorRouter, logCallback?: LogCallback) {
+  constructor(definitions: Map<string, ColorDefinition>, colorRouter: ColorRouterView, logCallback?: LogCallback) {
     this.definitions = definitions;
     this.colorRouter = colorRouter;
     this.logCallback = logCallback;
@@ -36,23 +45,48 @@ export class PaletteManager {
    * Creates a new palette.
    * @param name The name of the palette.
    * @param options Optional parameters for the palette, including `extends` for inheritance,
-   * `overrides` for specific color definitions, and `description`.
-   * @throws {PaletteError} If the palette already exists or the base palette does not exist.
+   * `overrides` for specific color definitions, `description`, the name of a `contract` to satisfy,
+   * and the theme `modes` its colors can take values for.
+   * @throws {PaletteError} If the palette already exists, the base palette or contract does not exist,
+   * the modes are empty or repeated, or an override is not allowed by the palette's contract.
    */
   public createPalette(
     name: string,
-    options: { extends?: string; overrides?: Record<string, any>; description?: string } = {},
+    options: {
+      extends?: string;
+      overrides?: Record<string, any>;
+      description?: string;
+      contract?: string;
+      modes?: string[];
+    } = {},
   ): void {
-    const { extends: basePalette, overrides = {}, description } = options;
+    const { extends: basePalette, overrides = {}, description, contract, modes } = options;
     if (this.palettes.has(name)) throw new PaletteError(`Palette "${name}" already exists.`);
+    if (modes && (modes.length === 0 || new Set(modes).size !== modes.length || modes.some((mode) => !mode))) {
+      throw new PaletteError(`Palette "${name}" must declare a non-empty list of distinct, non-empty modes.`);
+    }
     if (basePalette && !this.palettes.has(basePalette)) {
       throw new PaletteError(`Base palette "${basePalette}" does not exist.`);
     }
-    this.palettes.set(name, { extends: basePalette, overrides, description }); // Include description
+    if (contract && !this.contracts.has(contract)) {
+      throw new PaletteError(`Contract "${contract}" does not exist.`);
+    }
+
+    const effectiveContractName = contract ?? (basePalette ? this.getContractNameForPalette(basePalette) : undefined);
+    const disallowed = this.getDisallowedPaths(effectiveContractName, Object.keys(overrides));
+    if (disallowed.length > 0) {
+      throw new PaletteError(
+        `Palette "${name}" overrides keys not in contract "${effectiveContractName}": ${disallowed.join(', ')}.`,
+      );
+    }
+
+    this.palettes.set(name, { extends: basePalette, overrides, description, contract, modes: modes && [...modes] });
     if (this.logCallback) {
       let logMessage = `Palette '${name}' created`;
       if (basePalette) logMessage += ` extending '${basePalette}'`;
       if (description) logMessage += ` with description "${description}"`;
+      if (contract) logMessage += ` under contract '${contract}'`;
+      if (modes) logMessage += ` with modes ${modes.join(', ')}`;
       logMessage += '.';
       this.logCallback(logMessage);
     }
@@ -96,8 +130,12 @@ export class PaletteManager {
 
     const sourceConfig = this.palettes.get(sourceName);
     const sourceKeys = this.getAllKeysForPalette(sourceName);
-    // Preserve description when copying
-    this.createPalette(targetName, { description: sourceConfig?.description });
+    // Preserve description, contract and modes when copying
+    this.createPalette(targetName, {
+      description: sourceConfig?.description,
+      contract: sourceConfig?.contract,
+      modes: this.getModesForPalette(sourceName),
+    });
 
     for (const key of sourceKeys) {
       const definition = this.colorRouter.getDefinitionForKey(key);
@@ -121,6 +159,148 @@ export class PaletteManager {
     return keysToDelete;
   }
 
+  /**
+   * Captures the current palette configurations so they can be restored later.
+   * @returns A copy of every palette configuration, keyed by palette name.
+   */
+  public snapshot(): Map<string, PaletteConfig> {
+    const snapshot = new Map<string, PaletteConfig>();
+    for (const [name, config] of this.palettes) {
+      snapshot.set(name, { ...config, overrides: { ...config.overrides } });
+    }
+    return snapshot;
+  }
+
+  /**
+   * Replaces all palette configurations with a previously captured snapshot.
+   * @param snapshot A snapshot created by `snapshot()`.
+   */
+  public restore(snapshot: Map<string, PaletteConfig>): void {
+    this.palettes.clear();
+    for (const [name, config] of snapshot) {
+      this.palettes.set(name, { ...config, overrides: { ...config.overrides } });
+    }
+  }
+
+  /**
+   * Registers a palette contract that palettes can declare with `contract`.
+   * Palettes extending a palette with a contract must satisfy it too.
+   * @param name The name of the contract.
+   * @param contract The required keys, their descriptions and constraints.
+   * @throws {PaletteError} If a contract with the same name already exists.
+   */
+  public defineContract(name: string, contract: PaletteContract): void {
+    if (this.contracts.has(name)) throw new PaletteError(`Contract "${name}" already exists.`);
+    this.contracts.set(name, contract);
+    if (this.logCallback)
+      this.logCallback(`Contract '${name}' defined with ${contract.required.length} required keys.`);
+  }
+
+  /**
+   * Retrieves a contract by name.
+   * @param name The name of the contract.
+   * @returns The contract, or undefined if it does not exist.
+   */
+  public getContract(name: string): PaletteContract | undefined {
+    return this.contracts.get(name);
+  }
+
+  /**
+   * Finds the contract a palette must satisfy, either its own or the nearest one up its `extends` chain.
+   * @param paletteName The name of the palette.
+   * @returns The contract name, or undefined if no palette in the chain declares one.
+   */
+  public getContractNameForPalette(paletteName: string): string | undefined {
+    const visitedPalettes = new Set<string>();
+    let current: string | undefined = paletteName;
+
+    while (current && !visitedPalettes.has(current)) {
+      visitedPalettes.add(current);
+      const paletteConfig = this.palettes.get(current);
+      if (paletteConfig?.contract) return paletteConfig.contract;
+      current = paletteConfig?.extends;
+    }
+    return undefined;
+  }
+
+  /**
+   * Checks every palette that declares or inherits a contract.
+   * @returns One report per palette with its missing keys, extra keys and constraint violations.
+   */
+  public validateContracts(): ContractReport[] {
+    const reports: ContractReport[] = [];
+
+    for (const paletteName of this.palettes.keys()) {
+      const contractName = this.getContractNameForPalette(paletteName);
+      const contract = contractName ? this.contracts.get(contractName) : undefined;
+      if (!contractName || !contract) continue;
+
+      const contractKeys = this.getContractKeys(contract);
+      const requiredPaths = new Set(contractKeys.map(({ key }) => key));
+      const definedPaths = new Set(
+        this.getAllKeysForPalette(paletteName).map((key) => key.substring(paletteName.length + 1)),
+      );
+
+      const missing = [...requiredPaths].filter((path) => !definedPaths.has(path));
+      const extra = [...definedPaths].filter((path) => !requiredPaths.has(path));
+      const violations: ContractReport['violations'] = [];
+
+      for (const { key, constraint } of contractKeys) {
+        if (!constraint || !definedPaths.has(key)) continue;
+        const fullKey = `${paletteName}.${key}`;
+        try {
+          const result = constraint(this.colorRouter.resolve(fullKey), fullKey);
+          if (result !== true) {
+            violations.push({
+              key: fullKey,
+              message: typeof result === 'string' ? result : 'Constraint not satisfied.',
+            });
+          }
+        } catch (e) {
+          violations.push({ key: fullKey, message: (e as Error).message });
+        }
+      }
+
+      const extraAllowed = contract.allowExtraKeys !== false;
+      reports.push({
+        palette: paletteName,
+        contract: contractName,
+        missing,
+        extra,
+        violations,
+        valid: missing.length === 0 && violations.length === 0 && (extraAllowed || extra.length === 0),
+      });
+    }
+
+    return reports;
+  }
+
+  /**
+   * Checks that a key may be defined under its palette's contract.
+   * @param key The fully qualified key.
+   * @throws {PaletteError} If the contract sets `allowExtraKeys: false` and does not list the key's path.
+   */
+  public assertKeyAllowed(key: string): void {
+    const [paletteName, colorPath] = splitKey(key);
+    const contractName = this.getContractNameForPalette(paletteName);
+    if (this.getDisallowedPaths(contractName, [colorPath]).length > 0) {
+      throw new PaletteError(
+        `Cannot define "${key}": contract "${contractName}" of palette "${paletteName}" does not allow extra keys.`,
+      );
+    }
+  }
+
+  private getDisallowedPaths(contractName: string | undefined, paths: string[]): string[] {
+    const contract = contractName ? this.contracts.get(contractName) : undefined;
+    if (!contract || contract.allowExtraKeys !== false) return [];
+    const allowed = new Set(this.getContractKeys(contract).map(({ key }) => key));
+    return paths.filter((path) => !allowed.has(path));
+  }
+
+  private getContractKeys(contract: PaletteContract): ContractKey[] {
+    return contract.required.map((entry) => (typeof entry === 'string' ? { key: entry } : entry));
+  }
+
   /**
    * Retrieves a palette configuration.
    * @param name The name of the palette.
@@ -139,6 +319,42 @@ export class PaletteManager {
     return this.palettes.has(name);
   }
 
+  /**
+   * Retrieves the palettes that directly extend a given palette.
+   * @param name The name of the base palette.
+   * @returns The names of all palettes whose `extends` is `name`.
+   */
+  public getChildPalettes(name: string): string[] {
+    return Array.from(this.palettes.entries())
+      .filter(([, config]) => config.extends === name)
+      .map(([childName]) => childName);
+  }
+
+  /**
+   * Retrieves the theme modes of a palette, following the `extends` chain to the nearest palette that declares them.
+   * @param name The name of the palette.
+   * @returns The modes, default first, or undefined if neither the palette nor its bases declare any.
+   */
+  public getModesForPalette(name: string): string[] | undefined {
+    const visited = new Set<string>();
+    let current: string | undefined = name;
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      const config = this.palettes.get(current);
+      if (config?.modes) return [...config.modes];
+      current = config?.extends;
+    }
+    return undefined;
+  }
+
+  /**
+   * Collects every theme mode declared by any palette.
+   * @returns The distinct mode names, in declaration order.
+   */
+  public getAllModes(): string[] {
+    return Array.from(new Set(Array.from(this.palettes.values()).flatMap((config) => config.modes ?? [])));
+  }
+
   /**
    * Retrieves all palettes.
    * @returns An array of objects, each containing the name and configuration of a palette.
@@ -150,10 +366,11 @@ export class PaletteManager {
   /**
    * Retrieves all keys for a given palette, including keys from extended palettes.
    * @param paletteName The name of the palette.
+   * @param subPath Optional color path to filter by (e.g., "button" matches "button.primary.hover").
    * @returns An array of fully qualified color keys (e.g., "paletteName.colorName").
    * @throws {CircularDependencyError} If a circular dependency is detected in palette extensions.
    */
-  public getAllKeysForPalette(paletteName: string): string[] {
+  public getAllKeysForPalette(paletteName: string, subPath = ''): string[] {
     const keys = new Set<string>();
     let current: string | undefined = paletteName;
     const paletteStack: string[] = [];
@@ -175,7 +392,7 @@ export class PaletteManager {
       for (const key of this.definitions.keys()) {
         if (key.startsWith(prefix)) {
           const actualKey = key.substring(prefix.length);
-          keys.add(`${paletteName}.${actualKey}`);
+          if (isWithinPath(actualKey, subPath)) keys.add(`${paletteName}.${actualKey}`);
         }
       }
     }
@@ -0,0 +1,94 @@
+import { converter, formatCss, formatHex, formatHex8, formatRgb, round, clampGamut, toGamut } from 'culori';
+import type { Color } from 'culori';
+import { GamutMapMethod, GamutSpace, OutputColorSpace, OutputFormat } from '../types';
+
+const CULORI_MODES: Record<Exclude<OutputColorSpace, 'srgb-hex'>, string> = {
+  srgb: 'rgb',
+  hsl: 'hsl',
+  hwb: 'hwb',
+  lab: 'lab',
+  lch: 'lch',
+  oklab: 'oklab',
+  oklch: 'oklch',
+  p3: 'p3',
+  rec2020: 'rec2020',
+};
+
+const GAMUT_MODES: Record<GamutSpace, 'rgb' | 'p3' | 'rec2020'> = {
+  srgb: 'rgb',
+  p3: 'p3',
+  rec2020: 'rec2020',
+};
+
+// Conversions through other spaces leave in-gamut colors a rounding error outside [0, 1]
+const GAMUT_EPSILON = 1e-4;
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = { space: 'srgb-hex', precision: 4 };
+
+/**
+ * Formats a parsed color as a string in the requested output color space.
+ * `srgb-hex` clips to sRGB and emits `#rrggbbaa` when the color is translucent, and `srgb` clips to
+ * `rgb()` with 8-bit channels; every other space keeps out-of-sRGB channel values and alpha, rounded to
+ * `precision` decimals.
+ * @param color The parsed culori color.
+ * @param output The output color space and precision.
+ * @returns The formatted color string.
+ */
+export function formatColor(color: Color, output: OutputFormat = DEFAULT_OUTPUT_FORMAT): string {
+  if (output.space === 'srgb-hex') {
+    return color.alpha !== undefined && color.alpha < 1 ? formatHex8(color) : formatHex(color);
+  }
+
+  const converted = converter(CULORI_MODES[output.space] as any)(color) as Record<string, any>;
+  if (output.space === 'srgb') return formatRgb(converted as Color);
+
+  const roundChannel = round(output.precision);
+  const rounded: Record<string, any> = { ...converted };
+  for (const [channel, value] of Object.entries(converted)) {
+    if (channel !== 'mode' && typeof value === 'number') rounded[channel] = roundChannel(value);
+  }
+  return formatCss(rounded as Color);
+}
+
+/**
+ * Gets the gamut an output color space can hold, or undefined for unbounded spaces such as `oklch`.
+ */
+export function gamutOf(space: OutputColorSpace): GamutSpace | undefined {
+  if (space === 'p3' || space === 'rec2020') return space;
+  return space === 'srgb-hex' || space === 'srgb' || space === 'hsl' || space === 'hwb' ? 'srgb' : undefined;
+}
+
+/**
+ * Checks whether a string names a gamut.
+ */
+export function isGamutSpace(space: string): space is GamutSpace {
+  return space in GAMUT_MODES;
+}
+
+/**
+ * Checks whether a color fits a gamut, ignoring rounding errors.
+ */
+export function isInGamut(color: Color, space: GamutSpace): boolean {
+  const rgb = converter(GAMUT_MODES[space])(color);
+  return [rgb.r, rgb.g, rgb.b].every((channel) => channel >= -GAMUT_EPSILON && channel <= 1 + GAMUT_EPSILON);
+}
+
+/**
+ * Brings a color into a gamut.
+ * @param color The parsed culori color.
+ * @param space The target gamut.
+ * @param method How to reduce the color; see `GamutMapMethod`.
+ * @returns The color in the gamut's RGB space.
+ */
+export function mapToGamut(color: Color, space: GamutSpace, method: GamutMapMethod): Color {
+  const mode = GAMUT_MODES[space];
+  if (method === 'clip') return clampGamut(mode)(color)!;
+  return toGamut(mode, 'oklch', method === 'chroma' ? null : undefined)(color);
+}
+
+/**
+ * Checks whether a string names a supported output color space.
+ */
+export function isOutputColorSpace(space: string): space is OutputColorSpace {
+  return space === 'srgb-hex' || space in CULORI_MODES;
+}
@@ -0,0 +1,48 @@
+import { converter, interpolate, fixupHueShorter } from 'culori';
+import type { Color } from 'culori';
+
+/**
+ * Treats the hue of achromatic colors as missing, so a mix keeps the other color's hue.
+ */
+function dropPowerlessHue(color: Color): Color {
+  const { mode } = color;
+  const values = color as Record<string, any>;
+  const isPowerless =
+    ((mode === 'lch' || mode === 'oklch') && Math.abs(values.c ?? 0) < 1e-4) ||
+    (mode === 'hsl' && Math.abs(values.s ?? 0) < 1e-4) ||
+    (mode === 'hwb' && (values.w ?? 0) + (values.b ?? 0) >= 1 - 1e-4);
+  if (!isPowerless) return color;
+  const { h: _hue, ...rest } = values;
+  return rest as Color;
+}
+
+/**
+ * Interpolates two colors the way `color-mix()` does: in `mode`, with powerless hues treated as missing and with
+ * premultiplied alpha. Unlike culori's premultiplied interpolation, the hue is not premultiplied, as CSS Color 4
+ * specifies.
+ * @param t The share of `b`, from 0 to 1.
+ * @param fixup How hues are interpolated; the shorter arc by default.
+ * @returns The mixed color in `mode`, without gamut clipping.
+ */
+export function interpolatePremultiplied(
+  a: Color,
+  b: Color,
+  mode: string,
+  t: number,
+  fixup: (hues: number[]) => number[] = fixupHueShorter,
+): Color {
+  const toMode = converter(mode as any);
+  const premultiply = (color: Color, factor: (alpha: number) => number): Color => {
+    const alpha = color.alpha ?? 1;
+    const result: Record<string, any> = { ...color };
+    for (const [channel, value] of Object.entries(color)) {
+      if (channel !== 'mode' && channel !== 'h' && channel !== 'alpha' && typeof value === 'number') {
+        result[channel] = value * factor(alpha);
+      }
+    }
+    return result as Color;
+  };
+  const [first, second] = [a, b].map((color) => premultiply(dropPowerlessHue(toMode(color)), (alpha) => alpha));
+  const mixed = interpolate([first, second], mode as any, { h: { fixup } } as any)(t);
+  return premultiply(mixed, (alpha) => (alpha === 0 ? 0 : 1 / alpha));
+}
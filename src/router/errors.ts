@@ -11,3 +11,13 @@ export class CircularDependencyError extends Error {
     this.name = 'CircularDependencyError';
   }
 }
+
+export class ExpressionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly column: number,
+  ) {
+    super(`${message} (column ${column})`);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
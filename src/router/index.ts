@@ -1,4 +1,8 @@
 export { ColorRouter } from './ColorRouter';
 export { DependencyGraph } from './DependencyGraph';
 export { PaletteManager } from './PaletteManager';
-export { PaletteError, CircularDependencyError } from './errors';
+export { ExpressionParser } from './ExpressionParser';
+export { HistoryManager } from './HistoryManager';
+export { Auditor } from './Auditor';
+export type { HistoryCommand } from './HistoryManager';
+export { PaletteError, CircularDependencyError, ExpressionSyntaxError } from './errors';
@@ -0,0 +1,20 @@
+/**
+ * Splits a fully qualified color key into its palette name and the color path within that palette.
+ * Paths can be nested to any depth: `brand.button.primary.hover` becomes `['brand', 'button.primary.hover']`.
+ * @param key The fully qualified color key.
+ * @returns A tuple of palette name and color path. The path is empty if the key has no `.`.
+ */
+export function splitKey(key: string): [string, string] {
+  const separator = key.indexOf('.');
+  return separator === -1 ? [key, ''] : [key.slice(0, separator), key.slice(separator + 1)];
+}
+
+/**
+ * Checks whether a color path equals a sub-path or lies beneath it.
+ * `button.primary.hover` is within `button` and `button.primary`, but not within `butt`.
+ * @param path The color path to test.
+ * @param subPath The sub-path to match against. An empty sub-path matches every path.
+ */
+export function isWithinPath(path: string, subPath: string): boolean {
+  return subPath === '' || path === subPath || path.startsWith(`${subPath}.`);
+}
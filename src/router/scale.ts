@@ -0,0 +1,91 @@
+import type { ScaleEasing, ScaleOptions } from '../types';
+import { PaletteError } from './errors';
+
+export interface ScaleStep {
+  name: string;
+  lightness: number; // 0–1
+  chroma: number; // Multiplier of the seed's chroma
+}
+
+const EASINGS: Record<ScaleEasing, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in': (t) => t * t,
+  'ease-out': (t) => 1 - (1 - t) * (1 - t),
+  'ease-in-out': (t) => (t < 0.5 ? 2 * t * t : 1 - 2 * (1 - t) * (1 - t)),
+};
+
+/**
+ * Gets the default step names: Tailwind-style `50`, `100` … `900` (`950` with 11 steps), otherwise `100`, `200`, ….
+ */
+function defaultNames(steps: number): string[] {
+  if (steps === 10 || steps === 11) {
+    return Array.from({ length: steps }, (_, i) => String(i === 0 ? 50 : i === 10 ? 950 : i * 100));
+  }
+  return Array.from({ length: steps }, (_, i) => String((i + 1) * 100));
+}
+
+function requireLength(name: string, values: unknown[], steps: number): void {
+  if (values.length !== steps) {
+    throw new PaletteError(`Scale option "${name}" has ${values.length} entries, expected one per step (${steps}).`);
+  }
+}
+
+function requireRange(name: string, value: number, min: number, max: number): void {
+  if (typeof value !== 'number' || !(value >= min && value <= max)) {
+    throw new PaletteError(`Scale option "${name}" must be between ${min} and ${max}, got ${value}.`);
+  }
+}
+
+/**
+ * Computes the lightness and chroma of every step of a tonal scale, lightest first.
+ * @param options The scale options; see `ScaleOptions`.
+ * @throws {PaletteError} If the options are inconsistent or out of range.
+ */
+export function computeScaleSteps(options: ScaleOptions = {}): ScaleStep[] {
+  const { lightnessCurve = 'linear', chromaCurve = 'taper', chromaTaper = 0.3 } = options;
+  const steps =
+    options.steps ??
+    options.names?.length ??
+    (Array.isArray(lightnessCurve) ? lightnessCurve.length : Array.isArray(chromaCurve) ? chromaCurve.length : 10);
+  if (!Number.isInteger(steps) || steps < 2) {
+    throw new PaletteError(`A scale needs at least 2 steps, got ${steps}.`);
+  }
+  const names = options.names ?? defaultNames(steps);
+  requireLength('names', names, steps);
+  if (new Set(names).size !== names.length || names.some((name) => name === '' || name.includes('.'))) {
+    throw new PaletteError(`Scale step names must be unique, non-empty and without ".": ${names.join(', ')}.`);
+  }
+
+  const [start, end] = options.lightness ?? [0.97, 0.25];
+  requireRange('lightness', start, 0, 1);
+  requireRange('lightness', end, 0, 1);
+  requireRange('chromaTaper', chromaTaper, 0, 1);
+
+  let lightness: number[];
+  if (Array.isArray(lightnessCurve)) {
+    requireLength('lightnessCurve', lightnessCurve, steps);
+    lightnessCurve.forEach((value) => requireRange('lightnessCurve', value, 0, 1));
+    lightness = lightnessCurve;
+  } else {
+    const ease = EASINGS[lightnessCurve];
+    if (!ease) throw new PaletteError(`Unknown lightness curve "${lightnessCurve}".`);
+    lightness = names.map((_, i) => start + (end - start) * ease(i / (steps - 1)));
+  }
+
+  let chroma: number[];
+  if (Array.isArray(chromaCurve)) {
+    requireLength('chromaCurve', chromaCurve, steps);
+    chromaCurve.forEach((value) => requireRange('chromaCurve', value, 0, Infinity));
+    chroma = chromaCurve;
+  } else if (chromaCurve === 'constant') {
+    chroma = names.map(() => 1);
+  } else if (chromaCurve === 'taper') {
+    // Full chroma in the middle, falling off as a parabola to `chromaTaper` at both ends
+    chroma = names.map((_, i) => chromaTaper + (1 - chromaTaper) * (1 - Math.pow((2 * i) / (steps - 1) - 1, 2)));
+  } else {
+    throw new PaletteError(`Unknown chroma curve "${chromaCurve}".`);
+  }
+
+  const round = (value: number) => Number(value.toFixed(4));
+  return names.map((name, i) => ({ name, lightness: round(lightness[i]), chroma: round(chroma[i]) }));
+}
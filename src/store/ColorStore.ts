@@ -0,0 +1,176 @@
+import type { ColorRouter } from '../router';
+import type { ColorChangeEvent, ColorRouterView, ColorSchema, SchemaKey, SchemaPalette, Unsubscribe } from '../types';
+
+/** Resolved colors keyed by fully qualified key. */
+export type ColorSnapshot = Readonly<Record<string, string>>;
+
+/**
+ * The subscription contract shared by React's `useSyncExternalStore`, Svelte stores and plain code.
+ * `subscribe` calls `run` immediately with the current value (as Svelte requires) and again after every change.
+ */
+export interface ReadableColorStore<T> {
+  subscribe(run: (value: T) => void): Unsubscribe;
+  getSnapshot(): T;
+}
+
+/**
+ * A framework-agnostic view of part of a ColorRouter, kept current through its `change` events.
+ * Snapshots keep the same reference until one of the values they contain actually changes,
+ * so they can be compared by identity.
+ */
+export class ColorStore<T, S extends ColorSchema = ColorSchema> implements ReadableColorStore<T> {
+  readonly #router: ColorRouter<S>;
+  readonly #matches: (key: string) => boolean;
+  readonly #read: () => T;
+  readonly #listeners = new Set<(value: T) => void>();
+  #snapshot: T;
+  #detach?: Unsubscribe;
+
+  /**
+   * Creates an instance of ColorStore. Use `createColorStore`, `select` or `selectPalette` instead of calling this directly.
+   * @param router The router to read from.
+   * @param matches Whether a changed key affects this store.
+   * @param read Computes a fresh value of the store.
+   */
+  constructor(router: ColorRouter<S>, matches: (key: string) => boolean, read: () => T) {
+    this.#router = router;
+    this.#matches = matches;
+    this.#read = read;
+    this.#snapshot = read();
+  }
+
+  /**
+   * Registers a listener. It is called immediately with the current value and after every relevant change.
+   * Works as the `subscribe` of `useSyncExternalStore`, which ignores the value argument.
+   * @returns A function that removes the listener.
+   */
+  subscribe = (run: (value: T) => void): Unsubscribe => {
+    if (this.#listeners.size === 0) {
+      this.#refresh();
+      this.#detach = this.#router.on('change', (event) => {
+        if (event.detail.some(({ key }) => this.#matches(key)) && this.#refresh()) {
+          this.#listeners.forEach((listener) => listener(this.#snapshot));
+        }
+      });
+    }
+    this.#listeners.add(run);
+    run(this.#snapshot);
+
+    return () => {
+      if (!this.#listeners.delete(run) || this.#listeners.size > 0) return;
+      this.#detach?.();
+      this.#detach = undefined;
+    };
+  };
+
+  /**
+   * Gets the current value. Returns the same reference until the value changes.
+   */
+  getSnapshot = (): T => {
+    // Without subscribers no change events arrive, so re-read and keep the old reference if nothing differs.
+    if (!this.#detach) this.#refresh();
+    return this.#snapshot;
+  };
+
+  /**
+   * Creates a store of a single key's resolved value (undefined while it cannot be resolved).
+   */
+  select(key: SchemaKey<S>): ColorStore<string | undefined, S> {
+    return new ColorStore(
+      this.#router,
+      (changed) => changed === key,
+      () => this.#router.resolveSafe(key).value,
+    );
+  }
+
+  /**
+   * Creates a store of a palette's resolved colors, keyed by color path (e.g. `'button.hover'`), including inherited keys.
+   */
+  selectPalette(paletteName: SchemaPalette<S>): ColorStore<ColorSnapshot, S> {
+    const prefix = `${paletteName}.`;
+    return new ColorStore(
+      this.#router,
+      (changed) => changed.startsWith(prefix),
+      () => {
+        const exists = this.#router.getAllPalettes().some(({ name }) => name === paletteName);
+        const keys = exists ? this.#router.getAllKeysForPalette(paletteName) : [];
+        return readColors(this.#router, keys, prefix);
+      },
+    );
+  }
+
+  /**
+   * Iterates over the batches of changes that affect this store, for use with `for await` in plain Node code.
+   * Batches that arrive between iterations are queued. Ending the loop removes the underlying listener.
+   */
+  async *changes(): AsyncGenerator<ColorChangeEvent[], void, undefined> {
+    const queue: ColorChangeEvent[][] = [];
+    let wake: (() => void) | undefined;
+    const stop = this.#router.on('change', (event) => {
+      const batch = event.detail.filter(({ key }) => this.#matches(key));
+      if (batch.length === 0) return;
+      queue.push(batch);
+      wake?.();
+    });
+
+    try {
+      while (true) {
+        if (queue.length === 0) await new Promise<void>((resolve) => (wake = resolve));
+        wake = undefined;
+        yield queue.shift()!;
+      }
+    } finally {
+      stop();
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncGenerator<ColorChangeEvent[], void, undefined> {
+    return this.changes();
+  }
+
+  /**
+   * Re-reads the value, keeping the previous reference when nothing differs.
+   * @returns Whether the snapshot changed.
+   */
+  #refresh(): boolean {
+    const next = this.#read();
+    if (shallowEqual(this.#snapshot, next)) return false;
+    this.#snapshot = next;
+    return true;
+  }
+}
+
+/**
+ * Creates a store of every resolved color in a router. Keys that fail to resolve are left out.
+ * Narrow it with `select(key)` or `selectPalette(name)`.
+ * @param router The router to read from.
+ */
+export function createColorStore<S extends ColorSchema>(router: ColorRouter<S>): ColorStore<ColorSnapshot, S> {
+  return new ColorStore(
+    router,
+    () => true,
+    () =>
+      readColors(
+        router,
+        router.getAllPalettes().flatMap(({ name }) => router.getAllKeysForPalette(name)),
+        '',
+      ),
+  );
+}
+
+function readColors(router: ColorRouterView, keys: string[], prefix: string): ColorSnapshot {
+  const colors: Record<string, string> = {};
+  for (const key of keys) {
+    const { value } = router.resolveSafe(key);
+    if (value !== undefined) colors[key.substring(prefix.length)] = value;
+  }
+  return Object.freeze(colors);
+}
+
+function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const aKeys = Object.keys(a) as (keyof T)[];
+  if (aKeys.length !== Object.keys(b).length) return false;
+  return aKeys.every((key) => Object.is(a[key], b[key]));
+}
@@ -0,0 +1,2 @@
+export { ColorStore, createColorStore } from './ColorStore';
+export type { ColorSnapshot, ReadableColorStore } from './ColorStore';
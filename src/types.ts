@@ -6,16 +6,210 @@ export type ColorValue = string;
 export type PaletteName = string;
 export type ColorKey = string;
 
+export type OutputColorSpace =
+  | 'srgb-hex'
+  | 'srgb'
+  | 'hsl'
+  | 'hwb'
+  | 'lab'
+  | 'lch'
+  | 'oklab'
+  | 'oklch'
+  | 'p3'
+  | 'rec2020';
+
+/** RGB gamuts that colors can be checked against and mapped into. */
+export type GamutSpace = 'srgb' | 'p3' | 'rec2020';
+
+/**
+ * How `toGamut` brings a color into a gamut: `css` reduces OKLCH chroma as CSS Color 4 does (keeping colors within a
+ * just-noticeable difference of the clipped result), `chroma` reduces chroma until the color fits exactly, and `clip`
+ * clips each channel, which can shift the hue.
+ */
+export type GamutMapMethod = 'css' | 'chroma' | 'clip';
+
+export interface OutOfGamutColor {
+  key: ColorKey;
+  value: ColorValue; // The unclipped value, e.g. "oklch(0.7 0.35 150)"
+  resolved: ColorValue; // The value after formatting to the output space
+  gamut: GamutSpace;
+}
+
+export interface OutputFormat {
+  space: OutputColorSpace;
+  precision: number; // Decimal places for channel values (ignored by 'srgb-hex' and 'srgb', which use 8-bit channels)
+}
+
 export interface PaletteConfig {
   extends?: string;
   overrides?: Record<string, any>;
   description?: string; // Add optional description property
+  contract?: string; // Name of a contract registered with defineContract()
+  modes?: string[]; // Theme modes (e.g. ['light', 'dark']); the first is the default. Inherited through `extends`.
+}
+
+/**
+ * Checks a resolved color. Return `true` if it is acceptable, or `false` / a message describing the violation.
+ */
+export type ContractConstraint = (value: ColorValue, key: ColorKey) => boolean | string;
+
+export interface ContractKey {
+  key: string; // Color path within the palette, e.g. "surface" or "button.hover"
+  description?: string;
+  constraint?: ContractConstraint;
+}
+
+export interface PaletteContract {
+  description?: string;
+  required: Array<string | ContractKey>;
+  allowExtraKeys?: boolean; // Defaults to true. When false, defining keys outside the contract throws.
+}
+
+export interface ContractReport {
+  palette: PaletteName;
+  contract: string;
+  missing: string[];
+  extra: string[];
+  violations: Array<{ key: ColorKey; message: string }>;
+  valid: boolean;
+}
+
+export type AuditSeverity = 'error' | 'warning' | 'info';
+
+export type AuditRule =
+  | 'unused-key' // Keys no other key, fallback or palette-aware function uses
+  | 'unused-palette' // Palettes nothing extends and no other palette references
+  | 'long-reference-chain' // Keys resolved through more than `maxChainLength` hops
+  | 'duplicate-color' // Literal colors that are identical or closer than `duplicateThreshold`
+  | 'inheritance-self-reference' // Overrides that reference their own inherited value, or bases referencing descendants
+  | 'unparseable-function-input'; // Function arguments that look like colors but cannot be parsed
+
+export interface AuditOptions {
+  rules?: Partial<Record<AuditRule, AuditSeverity | 'off'>>; // Overrides the default severity of each rule
+  maxChainLength?: number; // Defaults to 4
+  duplicateThreshold?: number; // CIEDE2000 distance below which colors count as near-identical. Defaults to 1.
+}
+
+export interface AuditFinding {
+  rule: AuditRule;
+  severity: AuditSeverity;
+  message: string;
+  keys: ColorKey[]; // Keys involved, the reported key first
+  palette?: PaletteName;
+}
+
+export interface AuditReport {
+  findings: AuditFinding[];
+  counts: Record<AuditSeverity, number>;
+}
+
+export type ContrastAlgorithm = 'wcag2' | 'apca';
+
+/**
+ * A WCAG 2 level (`-large` for large text), a minimum APCA lightness contrast such as `{ apca: 60 }`,
+ * or a text size whose minimum APCA contrast is looked up, such as `{ fontSize: 16, fontWeight: 700 }`.
+ */
+export type ContrastLevel =
+  | 'AA'
+  | 'AAA'
+  | 'AA-large'
+  | 'AAA-large'
+  | { apca: number }
+  | { fontSize: number; fontWeight?: number };
+
+export interface ContrastPair {
+  foreground: string; // Color path within a palette, e.g. "text.body"
+  background: string; // Color path within a palette, e.g. "surface.base"
+  level: ContrastLevel;
+  palettes?: PaletteName[]; // Palettes to check. Defaults to every palette holding both keys.
+}
+
+export interface ContrastResult {
+  foreground: ColorKey;
+  background: ColorKey;
+  palette: PaletteName;
+  mode: string | undefined; // Theme mode the colors were resolved in
+  level: ContrastLevel;
+  algorithm: ContrastAlgorithm;
+  contrast: number; // WCAG ratio, or absolute APCA Lc
+  required: number;
+  passes: boolean;
+  foregroundValue?: ColorValue;
+  backgroundValue?: ColorValue;
+  error?: string; // Set when either color fails to resolve; the pair then fails
+}
+
+export interface AccessibilityReport {
+  passing: ContrastResult[];
+  failing: ContrastResult[];
+  valid: boolean;
+}
+
+export interface AccessibilityViolationEvent {
+  violations: ContrastResult[];
+}
+
+export type ColorVisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+export interface CVDAnalysisOptions {
+  subPath?: string; // Only check keys below this color path, e.g. "status"
+  deficiencies?: ColorVisionDeficiency[]; // Defaults to all four
+  severity?: number; // From 0 to 1. Defaults to 1 (complete deficiency).
+  threshold?: number; // CIEDE2000 distance below which colors count as indistinguishable. Defaults to 10.
+  mode?: string; // Theme mode to resolve the colors in
+}
+
+export interface CVDConflict {
+  keys: [ColorKey, ColorKey];
+  deficiency: ColorVisionDeficiency;
+  normalDistance: number;
+  simulatedDistance: number;
+  values: [ColorValue, ColorValue];
+}
+
+export interface CVDReport {
+  palette: PaletteName;
+  threshold: number;
+  conflicts: CVDConflict[];
+  valid: boolean;
+}
+
+/** Spaces that `lighten`, `darken`, `saturate`, `desaturate`, `tint` and `shade` adjust colors in. */
+export type AdjustSpace = 'oklch' | 'lch' | 'hsl';
+
+/**
+ * How an adjustment is applied: `add` adds the amount to the channel, `scale` changes the channel by a share of
+ * itself (or of the distance to its maximum), and `mix` mixes with white or black as CSS `color-mix()` does.
+ */
+export type AdjustMethod = 'add' | 'scale' | 'mix';
+
+/**
+ * Ways to measure how different two colors look; see `createDistance`. The CIE deltaE variants and `oklab`
+ * are perceptual, `weighted-hue` stresses hue differences, and `srgb` is fast but not perceptual.
+ */
+export type DistanceMetric = 'deltaE76' | 'cie94' | 'ciede2000' | 'oklab' | 'weighted-hue' | 'srgb';
+
+/** Cylindrical color spaces that harmony functions rotate the hue in. */
+export type HueSpace = 'oklch' | 'lch' | 'hsl' | 'hwb';
+
+export type ScaleEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+export type ScaleColorSpace = 'oklch' | 'lch';
+
+export interface ScaleOptions {
+  path?: string; // Color path the steps are defined under, e.g. "scale" for "brand.scale.500". Defaults to "scale".
+  steps?: number; // Defaults to the number of names, or 10
+  names?: string[]; // Lightest first. Defaults to 50, 100 … 900 for 10 steps (950 for 11), otherwise 100, 200, …
+  space?: ScaleColorSpace; // Space the lightness and chroma are set in. Defaults to 'oklch'.
+  lightness?: [number, number]; // Lightness (0–1) of the first and last step. Defaults to [0.97, 0.25].
+  lightnessCurve?: ScaleEasing | number[]; // Easing between the two, or the lightness of every step. Defaults to 'linear'.
+  chromaCurve?: 'constant' | 'taper' | number[]; // Share of the seed's chroma per step. Defaults to 'taper'.
+  chromaTaper?: number; // Share of the seed's chroma kept at both ends with 'taper'. Defaults to 0.3.
 }
 
 export interface ColorChangeEvent {
   key: string;
   oldValue: string | undefined;
-  newValue: string;
+  newValue: string | undefined; // Undefined when the key was removed, e.g. with its palette
 }
 
 export class ColorReference {
@@ -34,15 +228,197 @@ export class ColorFunction {
     public readonly visualDependencies: string[], // For visualization. Guaranteed to be populated by func.
   ) {}
 
-  execute(resolver: ColorRouter): string {
-    const resolvedArgs = this.args.map((arg) =>
-      typeof arg === 'string' && resolver.has(arg) ? resolver.resolve(arg) : arg,
-    );
+  execute(resolver: ColorRouterView): string {
+    const resolvedArgs = this.args.map((arg) => {
+      if (arg instanceof ColorFunction) return arg.execute(resolver);
+      return typeof arg === 'string' && resolver.has(arg) ? resolver.resolveUnclipped(arg) : arg;
+    });
     // Ensure the function is called with the ColorRouter instance as its `this` context
     return this.fn.call(resolver, ...resolvedArgs);
   }
 }
 
-export type ColorDefinition = ColorValue | ColorReference | ColorFunction;
+/** A definition that can be used for a single theme mode. */
+export type ModeDefinition = ColorValue | ColorReference | ColorFunction;
+
+/**
+ * Holds one definition per theme mode of the key's palette, e.g. `{ light: '#fff', dark: '#111' }`.
+ * Modes without an entry resolve to the palette's default (first declared) mode.
+ */
+export class ColorModes {
+  readonly type = Symbol.for('ColorModes');
+
+  constructor(public readonly values: Readonly<Record<string, ModeDefinition>>) {}
+}
+
+export type ColorDefinition = ModeDefinition | ColorModes;
+
+export interface ResolveOptions {
+  mode?: string; // Theme mode to resolve in instead of the active one
+}
+
+export interface ModeChangeEvent {
+  mode: string | undefined;
+  previousMode: string | undefined;
+}
+
+export interface WatchEventDetail {
+  newValue: string | undefined; // Undefined when the key was removed
+  oldValue: string | undefined;
+}
+
+export interface BatchCompleteEvent {
+  changes: ColorChangeEvent[]; // Successful changes
+  errors: Array<{ key: ColorKey; error: Error }>; // Keys that failed to resolve
+  processedKeys: ColorKey[];
+  summary: string;
+}
+
+export interface BatchFailedEvent {
+  error: unknown;
+  stage: 'sorting';
+  processedKeys: ColorKey[];
+  errors: Array<{ keys: ColorKey[]; error: Error }>;
+  summary: string;
+}
+
+/** Event names dispatched by `ColorRouter`, mapped to the `detail` of their `CustomEvent`. */
+export interface ColorRouterEventMap {
+  change: ColorChangeEvent[];
+  'batch-complete': BatchCompleteEvent;
+  'batch-failed': BatchFailedEvent;
+  'mode-change': ModeChangeEvent;
+  'a11y-violation': AccessibilityViolationEvent;
+  [watchEvent: `watch:${string}`]: WatchEventDetail;
+}
+
+export type ColorRouterEventName = keyof ColorRouterEventMap & string;
+export type ColorRouterListener<E extends ColorRouterEventName> = (event: CustomEvent<ColorRouterEventMap[E]>) => void;
+export type WatchCallback = (newValue: string | undefined, oldValue: string | undefined, key: ColorKey) => void;
+export type Unsubscribe = () => void;
+
+export interface ListenerOptions {
+  once?: boolean; // Remove the listener after its first call
+}
+
+/**
+ * Describes the keys a router holds: palette names mapped to a union of their color names,
+ * e.g. `{ brand: 'primary' | 'secondary' }`. The default schema accepts any string key.
+ */
+export type ColorSchema = Record<string, string>;
+
+/** All fully qualified keys of a schema (`'brand.primary' | 'brand.secondary'`), or `string` for the default schema. */
+export type SchemaKey<S extends ColorSchema> = string extends keyof S
+  ? string
+  : { [P in keyof S & string]: `${P}.${S[P]}` }[keyof S & string];
+
+/** All palette names of a schema, or `string` for the default schema. */
+export type SchemaPalette<S extends ColorSchema> = string extends keyof S ? string : keyof S & string;
+
+/** A key to watch, or a wildcard such as `'brand.*'` matching every key of a palette (or below a sub-path). */
+export type WatchPattern<S extends ColorSchema> = SchemaKey<S> | `${SchemaPalette<S>}.*`;
+
+/** A color tree inside a declarative palette config. Nested objects become nested key segments. */
+export interface ColorConfigNode {
+  [name: string]: ColorDefinition | ColorConfigNode;
+}
+
+/** A declarative router config: palette names mapped to their color trees. */
+export type ColorConfig = Record<string, ColorConfigNode>;
+
+type ConfigPaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends ColorDefinition ? `${Prefix}${K}` : ConfigPaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+/** Infers a `ColorSchema` from a declarative config, e.g. `{ brand: { button: { hover: '#f00' } } }` → `{ brand: 'button.hover' }`. */
+export type InferSchema<C extends ColorConfig> = { [P in keyof C & string]: ConfigPaths<C[P]> };
+
+export interface ColorDeprecation {
+  replacement?: ColorKey; // Key to use instead
+  since?: string; // Version or date the key was deprecated in
+}
+
+export interface ColorMetadata {
+  description?: string;
+  tags?: string[];
+  deprecated?: ColorDeprecation;
+}
+
+/**
+ * Options for `define` and `set`. On `set`, only the options that are present replace the existing ones;
+ * pass a field as `undefined` to remove it.
+ */
+export interface DefineOptions extends ColorMetadata {
+  fallback?: ColorDefinition; // Used when the definition fails to resolve
+}
+
+export interface SafeResolveResult {
+  value: ColorValue | undefined;
+  error: Error | undefined;
+  usedFallback: boolean;
+}
+
+export type SerializedColorDefinition =
+  | { type: 'value'; value: ColorValue }
+  | { type: 'reference'; key: ColorKey }
+  | { type: 'function'; name: string; args: any[] }
+  | { type: 'modes'; values: Record<string, SerializedColorDefinition> };
+
+export interface SerializedPalette {
+  name: PaletteName;
+  extends?: PaletteName;
+  description?: string;
+  contract?: string;
+  modes?: string[];
+  overrides?: Record<string, SerializedColorDefinition>;
+}
+
+export interface SerializedColorRouter {
+  version: 1;
+  mode: 'auto' | 'batch';
+  activeMode?: string;
+  output?: OutputFormat;
+  palettes: SerializedPalette[];
+  definitions: Record<ColorKey, SerializedColorDefinition>;
+  fallbacks?: Record<ColorKey, SerializedColorDefinition>;
+  metadata?: Record<ColorKey, ColorMetadata>;
+  contrastPairs?: ContrastPair[];
+}
+
+export interface RegisteredFunction {
+  fn: (...args: any[]) => string;
+  isPaletteAware?: boolean;
+}
 export type LogCallback = (message: string) => void;
-export type ColorRendererClass = new (router: ColorRouter, format?: 'css-variables' | 'json') => any;
+export type ColorRendererClass = new (router: ColorRouterView, format?: 'css-variables' | 'json') => any;
+
+/**
+ * The members of a router that renderers, stores, color functions and the router's own helpers rely on.
+ * A typed `ColorRouter<S>` is not assignable to `ColorRouter`, because its methods only accept the schema's keys,
+ * but it is assignable to this view whatever its schema.
+ */
+export type ColorRouterView = Pick<
+  ColorRouter,
+  | 'activeMode'
+  | 'outputFormat'
+  | 'has'
+  | 'resolve'
+  | 'resolveSafe'
+  | 'resolveUnclipped'
+  | 'evaluateFunction'
+  | 'define'
+  | 'ref'
+  | 'func'
+  | 'on'
+  | 'getAllPalettes'
+  | 'getAllKeysForPalette'
+  | 'getModes'
+  | 'getMetadata'
+  | 'getCustomFunctions'
+  | 'getDefinitionForKey'
+  | 'getFallback'
+  | 'getDefinitionType'
+  | 'getDependencyGraph'
+  | 'getPaletteDependencies'
+  | 'getVisualDependencies'
+>;